@@ -0,0 +1,50 @@
+import { ProjectAllocation } from '../models/ProjectAllocation';
+import { getAllocation } from './allocationController';
+import { mockQuery, mockResponse } from '../testing/helpers';
+
+const STUDENT_ID = '64b000000000000000000001';
+const OTHER_ID = '64b000000000000000000002';
+
+const requestAllocation = async (allocation: any, user: any) => {
+  jest.spyOn(ProjectAllocation, 'findById').mockReturnValue(mockQuery(allocation));
+  const res = mockResponse();
+  const next = jest.fn();
+  await getAllocation({ params: { id: 'a1' }, user } as any, res, next);
+  return { res, next };
+};
+
+describe('getAllocation', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('lets a student read their own allocation', async () => {
+    const { res } = await requestAllocation({ student: { _id: STUDENT_ID }, team: null }, { id: STUDENT_ID, role: 'student' });
+    expect(res.status).toHaveBeenCalledWith(200);
+  });
+
+  it("lets a team member read their team's allocation", async () => {
+    const allocation = { student: { _id: OTHER_ID }, team: { members: [OTHER_ID, STUDENT_ID] } };
+    const { res } = await requestAllocation(allocation, { id: STUDENT_ID, role: 'student' });
+    expect(res.status).toHaveBeenCalledWith(200);
+  });
+
+  it("refuses other students' allocations", async () => {
+    const { res } = await requestAllocation({ student: { _id: OTHER_ID }, team: null }, { id: STUDENT_ID, role: 'student' });
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+
+  it('refuses students instead of failing when the student account was deleted', async () => {
+    const { res, next } = await requestAllocation({ student: null, team: null }, { id: STUDENT_ID, role: 'student' });
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+
+  it('still shows staff an allocation whose student was deleted', async () => {
+    const { res } = await requestAllocation({ student: null, team: null }, { id: OTHER_ID, role: 'faculty' });
+    expect(res.status).toHaveBeenCalledWith(200);
+  });
+
+  it('answers 404 for an unknown allocation', async () => {
+    const { res } = await requestAllocation(null, { id: STUDENT_ID, role: 'admin' });
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+});
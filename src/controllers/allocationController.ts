@@ -0,0 +1,491 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { validationResult } from 'express-validator';
+import { ProjectAllocation, OPEN_ALLOCATION_STATUSES } from '../models/ProjectAllocation';
+import { ProblemStatement } from '../models/Problem';
+import { Team, ITeam, TEAM_SIZE_RULES } from '../models/Team';
+import { IUser } from '../models/User';
+import { AuthRequest } from '../middleware/auth';
+import { generateMilestones } from '../utils/milestones';
+
+// Accepts either a Mongo ObjectId or a custom problem id (AIM001, IOT002, etc.)
+const findProblemByAnyId = async (problemId: string) => {
+  if (mongoose.Types.ObjectId.isValid(problemId)) {
+    const problem = await ProblemStatement.findById(problemId);
+    if (problem) return problem;
+  }
+  return ProblemStatement.findOne({ id: problemId.toUpperCase() });
+};
+
+// Open allocation held by a student in a batch, either individually or through any of their teams
+const findOpenAllocationFor = async (studentIds: any[], batch: string) => {
+  const teams = await Team.find({ members: { $in: studentIds }, batch }).select('_id');
+  return ProjectAllocation.findOne({
+    batch,
+    status: { $in: OPEN_ALLOCATION_STATUSES },
+    $or: [
+      { student: { $in: studentIds } },
+      { team: { $in: teams.map(team => team._id) } }
+    ]
+  });
+};
+
+const countApprovedSeats = (problemId: mongoose.Types.ObjectId | string, batch: string): Promise<number> => {
+  return ProjectAllocation.countDocuments({ problem: problemId, batch, status: 'Approved' });
+};
+
+// @desc    Apply for a problem statement
+// @route   POST /api/v1/allocations
+// @access  Private/Student
+export const applyForProblem = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        errors: errors.array()
+      });
+      return;
+    }
+
+    const { problemId, teamId, batch, motivation } = req.body;
+
+    const problem = await findProblemByAnyId(problemId);
+
+    if (!problem || problem.status !== 'Active') {
+      res.status(404).json({
+        success: false,
+        message: 'Problem not found'
+      });
+      return;
+    }
+
+    // Major and Capstone problems are allocated to a locked team, everything else to individuals
+    let team: ITeam | null = null;
+    if (TEAM_SIZE_RULES[problem.category]) {
+      if (!teamId) {
+        res.status(400).json({
+          success: false,
+          message: `${problem.category} problems must be applied for as a team`
+        });
+        return;
+      }
+
+      team = await Team.findById(teamId);
+
+      if (!team) {
+        res.status(404).json({
+          success: false,
+          message: 'Team not found'
+        });
+        return;
+      }
+
+      if (team.leader.toString() !== req.user?.id) {
+        res.status(403).json({
+          success: false,
+          message: 'Only the team leader can apply on behalf of the team'
+        });
+        return;
+      }
+
+      if (team.category !== problem.category || team.batch !== batch) {
+        res.status(400).json({
+          success: false,
+          message: `Team must be a ${problem.category} team for batch ${batch}`
+        });
+        return;
+      }
+
+      if (!team.isLocked) {
+        res.status(400).json({
+          success: false,
+          message: 'Lock the team roster before applying'
+        });
+        return;
+      }
+    } else if (teamId) {
+      res.status(400).json({
+        success: false,
+        message: `${problem.category} problems are done individually`
+      });
+      return;
+    }
+
+    // Every student can only hold one open application per batch
+    const existing = await findOpenAllocationFor(team ? team.members : [req.user?.id], batch);
+
+    if (existing) {
+      res.status(400).json({
+        success: false,
+        message: existing.problem.toString() === String(problem._id)
+          ? 'An application for this problem already exists'
+          : `${team ? 'A team member' : 'You'} already ${team ? 'has' : 'have'} a ${existing.status.toLowerCase()} allocation for batch ${batch}`
+      });
+      return;
+    }
+
+    const approvedSeats = await countApprovedSeats(problem._id as mongoose.Types.ObjectId, batch);
+    if (approvedSeats >= problem.seatCapacity) {
+      res.status(400).json({
+        success: false,
+        message: `No seats left on ${problem.id} for batch ${batch}`
+      });
+      return;
+    }
+
+    const allocation = await ProjectAllocation.create({
+      problem: problem._id,
+      student: req.user?.id,
+      team: team?._id,
+      batch,
+      motivation
+    });
+
+    const populatedAllocation = await ProjectAllocation.findById(allocation._id)
+      .populate('problem', 'id title domain category')
+      .populate('student', 'name email')
+      .populate('team', 'name members');
+
+    res.status(201).json({
+      success: true,
+      message: 'Application submitted successfully',
+      data: populatedAllocation
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get current student's allocations
+// @route   GET /api/v1/allocations/me
+// @access  Private
+export const getMyAllocations = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const teams = await Team.find({ members: req.user?.id }).select('_id');
+
+    const allocations = await ProjectAllocation.find({
+      $or: [
+        { student: req.user?.id },
+        { team: { $in: teams.map(team => team._id) } }
+      ]
+    })
+      .populate('problem', 'id title domain category difficulty duration')
+      .populate('team', 'name members')
+      .populate('reviewedBy', 'name email')
+      .sort({ createdAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      count: allocations.length,
+      data: allocations
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get all allocations
+// @route   GET /api/v1/allocations
+// @access  Private/Admin/Faculty
+export const getAllocations = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { status, batch, problem, page = 1, limit = 10 } = req.query;
+
+    // Build filter object
+    const filter: any = {};
+    if (status) filter.status = status;
+    if (batch) filter.batch = batch;
+    if (problem) {
+      const problemDoc = await findProblemByAnyId(problem as string);
+      filter.problem = problemDoc ? problemDoc._id : null;
+    }
+
+    // Pagination
+    const skip = (Number(page) - 1) * Number(limit);
+
+    const allocations = await ProjectAllocation.find(filter)
+      .populate('problem', 'id title domain category seatCapacity')
+      .populate('student', 'name email college course')
+      .populate('team', 'name members')
+      .populate('reviewedBy', 'name email')
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(Number(limit));
+
+    const total = await ProjectAllocation.countDocuments(filter);
+
+    res.status(200).json({
+      success: true,
+      count: allocations.length,
+      total,
+      page: Number(page),
+      pages: Math.ceil(total / Number(limit)),
+      data: allocations
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get single allocation
+// @route   GET /api/v1/allocations/:id
+// @access  Private
+export const getAllocation = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const allocation = await ProjectAllocation.findById(req.params.id)
+      .populate('problem', 'id title domain category difficulty duration deliverables')
+      .populate<{ student: IUser | null }>('student', 'name email college course')
+      .populate<{ team: ITeam | null }>('team', 'name members leader')
+      .populate('reviewedBy', 'name email');
+
+    if (!allocation) {
+      res.status(404).json({
+        success: false,
+        message: 'Allocation not found'
+      });
+      return;
+    }
+
+    // Students can only see their own or their team's allocations. The student or team may have been
+    // deleted since, in which case populate leaves null.
+    const isOwner = (allocation.student && String(allocation.student._id) === req.user?.id)
+      || (allocation.team?.members || []).some(member => member.toString() === req.user?.id);
+    if (req.user?.role === 'student' && !isOwner) {
+      res.status(403).json({
+        success: false,
+        message: 'Not authorized to view this allocation'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: allocation
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Approve allocation
+// @route   PUT /api/v1/allocations/:id/approve
+// @access  Private/Admin/Faculty
+export const approveAllocation = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const allocation = await ProjectAllocation.findById(req.params.id);
+
+    if (!allocation) {
+      res.status(404).json({
+        success: false,
+        message: 'Allocation not found'
+      });
+      return;
+    }
+
+    if (allocation.status !== 'Pending') {
+      res.status(400).json({
+        success: false,
+        message: `Cannot approve an allocation that is ${allocation.status}`
+      });
+      return;
+    }
+
+    const problem = await ProblemStatement.findById(allocation.problem);
+
+    if (!problem) {
+      res.status(404).json({
+        success: false,
+        message: 'Problem not found'
+      });
+      return;
+    }
+
+    if (await countApprovedSeats(allocation.problem, allocation.batch) >= problem.seatCapacity) {
+      res.status(409).json({
+        success: false,
+        message: `All ${problem.seatCapacity} seats on ${problem.id} are taken for batch ${allocation.batch}`
+      });
+      return;
+    }
+
+    // Only flip the allocation if it is still pending, so two reviewers can't approve it twice
+    const approved = await ProjectAllocation.findOneAndUpdate(
+      { _id: allocation._id, status: 'Pending' },
+      {
+        status: 'Approved',
+        remarks: req.body.remarks,
+        reviewedBy: req.user?.id,
+        reviewedAt: new Date()
+      },
+      { new: true, runValidators: true }
+    );
+
+    if (!approved) {
+      res.status(409).json({
+        success: false,
+        message: 'Allocation was updated by someone else, please refresh'
+      });
+      return;
+    }
+
+    // Re-check after the write in case a concurrent approval took the last seat
+    if (await countApprovedSeats(allocation.problem, allocation.batch) > problem.seatCapacity) {
+      await ProjectAllocation.findByIdAndUpdate(allocation._id, {
+        status: 'Pending',
+        $unset: { remarks: 1, reviewedBy: 1, reviewedAt: 1 }
+      });
+      res.status(409).json({
+        success: false,
+        message: `All ${problem.seatCapacity} seats on ${problem.id} are taken for batch ${allocation.batch}`
+      });
+      return;
+    }
+
+    // Turn the problem's deliverables into dated milestones for the students
+    await generateMilestones(approved, problem, approved.reviewedAt);
+
+    const populatedAllocation = await ProjectAllocation.findById(allocation._id)
+      .populate('problem', 'id title domain category seatCapacity')
+      .populate('student', 'name email')
+      .populate('team', 'name members')
+      .populate('reviewedBy', 'name email');
+
+    res.status(200).json({
+      success: true,
+      message: 'Allocation approved successfully',
+      data: populatedAllocation
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Reject allocation
+// @route   PUT /api/v1/allocations/:id/reject
+// @access  Private/Admin/Faculty
+export const rejectAllocation = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const allocation = await ProjectAllocation.findById(req.params.id);
+
+    if (!allocation) {
+      res.status(404).json({
+        success: false,
+        message: 'Allocation not found'
+      });
+      return;
+    }
+
+    if (!OPEN_ALLOCATION_STATUSES.includes(allocation.status)) {
+      res.status(400).json({
+        success: false,
+        message: `Cannot reject an allocation that is ${allocation.status}`
+      });
+      return;
+    }
+
+    allocation.status = 'Rejected';
+    allocation.remarks = req.body.remarks;
+    allocation.reviewedBy = req.user?.id;
+    allocation.reviewedAt = new Date();
+    await allocation.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Allocation rejected',
+      data: allocation
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Withdraw own or own team's allocation
+// @route   PUT /api/v1/allocations/:id/withdraw
+// @access  Private/Student
+export const withdrawAllocation = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const allocation = await ProjectAllocation.findById(req.params.id);
+
+    if (!allocation) {
+      res.status(404).json({
+        success: false,
+        message: 'Allocation not found'
+      });
+      return;
+    }
+
+    // For team allocations the applicant is the team leader
+    if (allocation.student.toString() !== req.user?.id) {
+      res.status(403).json({
+        success: false,
+        message: 'Not authorized to withdraw this allocation'
+      });
+      return;
+    }
+
+    if (!OPEN_ALLOCATION_STATUSES.includes(allocation.status)) {
+      res.status(400).json({
+        success: false,
+        message: `Cannot withdraw an allocation that is ${allocation.status}`
+      });
+      return;
+    }
+
+    allocation.status = 'Withdrawn';
+    await allocation.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Allocation withdrawn successfully',
+      data: allocation
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get seat availability for a problem in a batch
+// @route   GET /api/v1/allocations/availability/:problemId
+// @access  Private
+export const getSeatAvailability = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { batch } = req.query;
+
+    if (!batch) {
+      res.status(400).json({
+        success: false,
+        message: 'Batch is required'
+      });
+      return;
+    }
+
+    const problem = await findProblemByAnyId(req.params.problemId);
+
+    if (!problem) {
+      res.status(404).json({
+        success: false,
+        message: 'Problem not found'
+      });
+      return;
+    }
+
+    const approved = await countApprovedSeats(problem._id as mongoose.Types.ObjectId, batch as string);
+    const pending = await ProjectAllocation.countDocuments({ problem: problem._id, batch, status: 'Pending' });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        problem: problem.id,
+        batch,
+        seatCapacity: problem.seatCapacity,
+        approved,
+        pending,
+        available: Math.max(problem.seatCapacity - approved, 0)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { ProblemStatement } from '../models/Problem';
 import { User } from '../models/User';
+import { withDomainDetails } from '../services/domains';
 import { createError } from '../middleware/errorHandler';
 import mongoose from 'mongoose';
 
@@ -51,7 +52,7 @@ export const getDashboardStats = async (req: Request, res: Response, next: NextF
         draftProblems,
         featuredProblems,
         recentProblems,
-        problemsByDomain,
+        problemsByDomain: await withDomainDetails(problemsByDomain),
         problemsByDifficulty
       }
     });
@@ -128,7 +129,7 @@ export const getProblemStats = async (req: Request, res: Response, next: NextFun
         totalProblems: problemsInPeriod.length,
         problemsInPeriod,
         problemsByStatus,
-        problemsByDomain,
+        problemsByDomain: await withDomainDetails(problemsByDomain),
         problemsByDifficulty,
         topCreators
       }
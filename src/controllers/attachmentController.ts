@@ -0,0 +1,222 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { ProblemStatement, IProblemStatement } from '../models/Problem';
+import { AuthRequest } from '../middleware/auth';
+import { getStorage } from '../services/storage';
+import {
+  MAX_ATTACHMENTS_PER_PROBLEM,
+  getAttachmentContentType,
+  attachmentChecksum,
+  attachmentStorageKey,
+  removeStoredAttachments
+} from '../services/problemAttachments';
+
+const canManage = (problem: IProblemStatement, user: any): boolean => {
+  return problem.createdBy.toString() === user?.id || user?.role === 'admin';
+};
+
+// @desc    Get a problem's attachments
+// @route   GET /api/v1/problems/:id/attachments
+// @access  Private
+export const getAttachments = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const problem = await ProblemStatement.findById(req.params.id).select('attachments');
+
+    if (!problem) {
+      res.status(404).json({
+        success: false,
+        message: 'Problem not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      count: problem.attachments.length,
+      data: problem.attachments
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Upload an attachment to a problem
+// @route   POST /api/v1/problems/:id/attachments
+// @access  Private/Admin/Faculty
+export const uploadAttachment = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        errors: errors.array()
+      });
+      return;
+    }
+
+    if (!req.file) {
+      res.status(400).json({
+        success: false,
+        message: 'Please upload a file'
+      });
+      return;
+    }
+
+    const problem = await ProblemStatement.findById(req.params.id).select('+attachments.storageKey');
+
+    if (!problem) {
+      res.status(404).json({
+        success: false,
+        message: 'Problem not found'
+      });
+      return;
+    }
+
+    if (!canManage(problem, req.user)) {
+      res.status(403).json({
+        success: false,
+        message: 'Not authorized to add attachments to this problem'
+      });
+      return;
+    }
+
+    if (problem.attachments.length >= MAX_ATTACHMENTS_PER_PROBLEM) {
+      res.status(400).json({
+        success: false,
+        message: `A problem can have at most ${MAX_ATTACHMENTS_PER_PROBLEM} attachments`
+      });
+      return;
+    }
+
+    const checksum = attachmentChecksum(req.file.buffer);
+    const existing = problem.attachments.find(attachment => attachment.checksum === checksum);
+    if (existing) {
+      res.status(409).json({
+        success: false,
+        message: `This file is already attached as ${existing.fileName}`
+      });
+      return;
+    }
+
+    const storageKey = attachmentStorageKey(problem._id, req.file.originalname);
+    const contentType = getAttachmentContentType(req.file) as string;
+    await getStorage().put(storageKey, req.file.buffer, contentType);
+
+    problem.attachments.push({
+      fileName: req.file.originalname,
+      storageKey,
+      contentType,
+      size: req.file.size,
+      checksum,
+      description: req.body.description,
+      uploadedBy: req.user?.id
+    } as any);
+
+    try {
+      await problem.save();
+    } catch (error) {
+      await removeStoredAttachments([storageKey]);
+      throw error;
+    }
+
+    const attachment = problem.attachments[problem.attachments.length - 1] as any;
+    const { storageKey: _key, ...data } = attachment.toObject();
+
+    res.status(201).json({
+      success: true,
+      message: 'Attachment uploaded successfully',
+      data
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Download an attachment
+// @route   GET /api/v1/problems/:id/attachments/:attachmentId
+// @access  Private
+export const downloadAttachment = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const problem = await ProblemStatement.findById(req.params.id).select('+attachments.storageKey');
+    const attachment = problem?.attachments.find(item => item._id.toString() === req.params.attachmentId);
+
+    if (!attachment) {
+      res.status(404).json({
+        success: false,
+        message: 'Attachment not found'
+      });
+      return;
+    }
+
+    let file;
+    try {
+      file = await getStorage().get(attachment.storageKey);
+    } catch (error) {
+      res.status(404).json({
+        success: false,
+        message: 'Attachment file not found'
+      });
+      return;
+    }
+
+    res.attachment(attachment.fileName);
+    res.setHeader('Content-Type', attachment.contentType);
+    res.setHeader('Content-Length', attachment.size);
+    res.setHeader('ETag', `"${attachment.checksum}"`);
+
+    file.on('error', error => {
+      if (res.headersSent) res.destroy(error);
+      else next(error);
+    });
+    file.pipe(res);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Delete an attachment
+// @route   DELETE /api/v1/problems/:id/attachments/:attachmentId
+// @access  Private/Admin/Faculty
+export const deleteAttachment = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const problem = await ProblemStatement.findById(req.params.id).select('+attachments.storageKey');
+
+    if (!problem) {
+      res.status(404).json({
+        success: false,
+        message: 'Problem not found'
+      });
+      return;
+    }
+
+    if (!canManage(problem, req.user)) {
+      res.status(403).json({
+        success: false,
+        message: 'Not authorized to remove attachments from this problem'
+      });
+      return;
+    }
+
+    const attachment = problem.attachments.find(item => item._id.toString() === req.params.attachmentId);
+    if (!attachment) {
+      res.status(404).json({
+        success: false,
+        message: 'Attachment not found'
+      });
+      return;
+    }
+
+    const { storageKey } = attachment;
+    problem.attachments = problem.attachments.filter(item => item !== attachment);
+    await problem.save();
+    await removeStoredAttachments([storageKey]);
+
+    res.status(200).json({
+      success: true,
+      message: 'Attachment deleted successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
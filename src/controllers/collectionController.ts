@@ -0,0 +1,294 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import { Collection } from '../models/Collection';
+import { ProblemStatement } from '../models/Problem';
+import { AuthRequest } from '../middleware/auth';
+import { publishedFilter } from '../utils/problemVisibility';
+import { localizeProblems } from '../utils/locale';
+
+const EDITABLE_FIELDS = ['title', 'slug', 'description', 'visibility'];
+
+// Fields shown for each problem on a public collection page
+const PUBLIC_PROBLEM_FIELDS = 'id title abstractExcerpt domain category difficulty duration technologies tags featured viewCount translations';
+
+// Resolves the requested problems (Mongo ids or custom ids like AIM001) in the given order.
+// Archived and trashed problems can't be added, since they would be taken out again straight away.
+const resolveProblems = async (values: string[]): Promise<{ ids: mongoose.Types.ObjectId[]; error?: string }> => {
+  const objectIds = values.filter(value => mongoose.Types.ObjectId.isValid(value));
+  const customIds = values.map(value => String(value).toUpperCase());
+
+  const problems = await ProblemStatement.find({
+    $or: [{ _id: { $in: objectIds } }, { id: { $in: customIds } }]
+  }).select('id status');
+
+  const ids: mongoose.Types.ObjectId[] = [];
+  for (const value of values) {
+    const problem = problems.find(item => String(item._id) === value || item.id === String(value).toUpperCase());
+    if (!problem) return { ids, error: `Problem ${value} not found` };
+    if (problem.status === 'Archived') return { ids, error: `Problem ${problem.id} is archived` };
+    if (ids.some(id => id.equals(problem._id as mongoose.Types.ObjectId))) {
+      return { ids, error: `Problem ${problem.id} is listed more than once` };
+    }
+    ids.push(problem._id as mongoose.Types.ObjectId);
+  }
+
+  return { ids };
+};
+
+const slugTaken = async (slug: string, excludeId?: any): Promise<boolean> => {
+  return !!(await Collection.exists({ slug, ...(excludeId && { _id: { $ne: excludeId } }) }));
+};
+
+// @desc    Get all collections
+// @route   GET /api/v1/collections
+// @access  Private/Admin
+export const getCollections = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const filter: any = {};
+    if (req.query.visibility) filter.visibility = req.query.visibility;
+
+    const collections = await Collection.find(filter)
+      .populate('createdBy', 'name email')
+      .sort({ updatedAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      count: collections.length,
+      data: collections.map(collection => ({ ...collection.toObject(), problemCount: collection.problems.length }))
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get single collection with its problems
+// @route   GET /api/v1/collections/:id
+// @access  Private/Admin
+export const getCollection = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const collection = await Collection.findById(req.params.id)
+      .populate('problems', 'id title domain status difficulty')
+      .populate('createdBy', 'name email');
+
+    if (!collection) {
+      res.status(404).json({
+        success: false,
+        message: 'Collection not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: collection
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Create collection
+// @route   POST /api/v1/collections
+// @access  Private/Admin
+export const createCollection = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        errors: errors.array()
+      });
+      return;
+    }
+
+    const data: any = { createdBy: req.user?.id };
+    EDITABLE_FIELDS.forEach(field => {
+      if (req.body[field] !== undefined) data[field] = req.body[field];
+    });
+
+    const { ids, error } = await resolveProblems(req.body.problems || []);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: error
+      });
+      return;
+    }
+    data.problems = ids;
+
+    const collection = new Collection(data);
+    await collection.validate();
+    if (await slugTaken(collection.slug)) {
+      res.status(400).json({
+        success: false,
+        message: `Another collection already uses the slug ${collection.slug}`
+      });
+      return;
+    }
+
+    await collection.save();
+
+    res.status(201).json({
+      success: true,
+      message: 'Collection created successfully',
+      data: collection
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Update collection. A problems array replaces the list and its order.
+// @route   PUT /api/v1/collections/:id
+// @access  Private/Admin
+export const updateCollection = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        errors: errors.array()
+      });
+      return;
+    }
+
+    const collection = await Collection.findById(req.params.id);
+
+    if (!collection) {
+      res.status(404).json({
+        success: false,
+        message: 'Collection not found'
+      });
+      return;
+    }
+
+    EDITABLE_FIELDS.forEach(field => {
+      if (req.body[field] !== undefined) collection.set(field, req.body[field]);
+    });
+
+    if (req.body.problems !== undefined) {
+      const { ids, error } = await resolveProblems(req.body.problems);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: error
+        });
+        return;
+      }
+      collection.problems = ids;
+    }
+
+    if (collection.isModified('slug') && (await slugTaken(collection.slug, collection._id))) {
+      res.status(400).json({
+        success: false,
+        message: `Another collection already uses the slug ${collection.slug}`
+      });
+      return;
+    }
+
+    await collection.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Collection updated successfully',
+      data: collection
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Delete collection
+// @route   DELETE /api/v1/collections/:id
+// @access  Private/Admin
+export const deleteCollection = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const collection = await Collection.findByIdAndDelete(req.params.id);
+
+    if (!collection) {
+      res.status(404).json({
+        success: false,
+        message: 'Collection not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Collection deleted successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get public collections with their published problem counts
+// @route   GET /api/v1/public/collections
+// @access  Public
+export const getPublicCollections = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const collections = await Collection.find({ visibility: 'Public' })
+      .select('title slug description problems updatedAt')
+      .sort({ updatedAt: -1 })
+      .lean();
+
+    // Problems that aren't live yet (drafts, scheduled) are counted only once published
+    const listed = collections.flatMap(collection => collection.problems);
+    const published = await ProblemStatement.find({ ...publishedFilter(), _id: { $in: listed } }).select('_id').lean();
+    const publishedIds = new Set(published.map(problem => problem._id.toString()));
+
+    res.status(200).json({
+      success: true,
+      count: collections.length,
+      data: collections.map(({ problems, ...collection }) => ({
+        ...collection,
+        problemCount: problems.filter(id => publishedIds.has(id.toString())).length
+      }))
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get a public or unlisted collection by slug with its published problems in order
+// @route   GET /api/v1/public/collections/:slug
+// @access  Public
+export const getPublicCollection = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const collection = await Collection.findOne({
+      slug: req.params.slug.toLowerCase(),
+      visibility: { $in: ['Public', 'Unlisted'] }
+    })
+      .select('title slug description problems visibility updatedAt')
+      .lean();
+
+    if (!collection) {
+      res.status(404).json({
+        success: false,
+        message: 'Collection not found'
+      });
+      return;
+    }
+
+    const problems = await ProblemStatement.find({ ...publishedFilter(), _id: { $in: collection.problems } })
+      .select(PUBLIC_PROBLEM_FIELDS)
+      .lean();
+    const ordered = collection.problems
+      .map(id => problems.find(problem => problem._id.toString() === id.toString()))
+      .filter(Boolean);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...collection,
+        problemCount: ordered.length,
+        problems: localizeProblems(ordered, res.locals.locale)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,251 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { Domain } from '../models/Domain';
+import { ProblemStatement } from '../models/Problem';
+import { AuthRequest } from '../middleware/auth';
+import { clearDomainCache, findDomain, getDomains as getCachedDomains } from '../services/domains';
+import { publishedFilter } from '../utils/problemVisibility';
+import { reviseProblems } from '../utils/revisions';
+
+const EDITABLE_FIELDS = ['name', 'slug', 'prefix', 'description', 'icon', 'order', 'isActive'];
+
+const countProblemsByDomain = async (match: any = {}): Promise<Map<string, number>> => {
+  const buckets = await ProblemStatement.aggregate([
+    { $match: match },
+    { $group: { _id: '$domain', count: { $sum: 1 } } }
+  ]);
+  return new Map(buckets.map(bucket => [bucket._id, bucket.count]));
+};
+
+// @desc    Get all domains with problem counts
+// @route   GET /api/v1/domains
+// @access  Private/Admin
+export const getDomains = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const domains = await Domain.find().sort({ order: 1, name: 1 });
+    const counts = await countProblemsByDomain();
+
+    res.status(200).json({
+      success: true,
+      count: domains.length,
+      data: domains.map(domain => ({ ...domain.toObject(), problemCount: counts.get(domain.name) || 0 }))
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get single domain
+// @route   GET /api/v1/domains/:id
+// @access  Private/Admin
+export const getDomain = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const domain = await Domain.findById(req.params.id);
+
+    if (!domain) {
+      res.status(404).json({
+        success: false,
+        message: 'Domain not found'
+      });
+      return;
+    }
+
+    const problemCount = await ProblemStatement.countDocuments({ domain: domain.name });
+
+    res.status(200).json({
+      success: true,
+      data: { ...domain.toObject(), problemCount }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Create domain
+// @route   POST /api/v1/domains
+// @access  Private/Admin
+export const createDomain = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        errors: errors.array()
+      });
+      return;
+    }
+
+    const data: any = {};
+    EDITABLE_FIELDS.forEach(field => {
+      if (req.body[field] !== undefined) data[field] = req.body[field];
+    });
+
+    // New domains go to the end of the list unless placed explicitly
+    if (data.order === undefined) {
+      const last = await Domain.findOne().sort({ order: -1 });
+      data.order = last ? last.order + 1 : 1;
+    }
+
+    const domain = await Domain.create(data);
+    clearDomainCache();
+
+    res.status(201).json({
+      success: true,
+      message: 'Domain created successfully',
+      data: domain
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Update domain
+// @route   PUT /api/v1/domains/:id
+// @access  Private/Admin
+export const updateDomain = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        errors: errors.array()
+      });
+      return;
+    }
+
+    const domain = await Domain.findById(req.params.id);
+
+    if (!domain) {
+      res.status(404).json({
+        success: false,
+        message: 'Domain not found'
+      });
+      return;
+    }
+
+    const previousName = domain.name;
+    EDITABLE_FIELDS.forEach(field => {
+      if (req.body[field] !== undefined) domain.set(field, req.body[field]);
+    });
+
+    // Existing ids carry the prefix, so it is fixed once any problem uses the domain
+    if (domain.isModified('prefix')) {
+      const inUse = await ProblemStatement.exists({ domain: previousName }).setOptions({ withDeleted: true });
+      if (inUse) {
+        res.status(400).json({
+          success: false,
+          message: 'The id prefix cannot change once problems use this domain'
+        });
+        return;
+      }
+    }
+
+    await domain.save();
+
+    // Problems store the domain name, so a rename is carried over to them (trashed ones included)
+    let renamedProblems = 0;
+    if (domain.name !== previousName) {
+      renamedProblems = await reviseProblems({ domain: previousName }, ['domain'], problem => {
+        problem.domain = domain.name;
+      }, req.user?.id);
+    }
+
+    clearDomainCache();
+
+    res.status(200).json({
+      success: true,
+      message: renamedProblems
+        ? `Domain updated successfully, ${renamedProblems} problems moved to the new name`
+        : 'Domain updated successfully',
+      data: domain
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Delete domain
+// @route   DELETE /api/v1/domains/:id
+// @access  Private/Admin
+export const deleteDomain = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const domain = await Domain.findById(req.params.id);
+
+    if (!domain) {
+      res.status(404).json({
+        success: false,
+        message: 'Domain not found'
+      });
+      return;
+    }
+
+    const problemCount = await ProblemStatement.countDocuments({ domain: domain.name }).setOptions({ withDeleted: true });
+    if (problemCount > 0) {
+      res.status(400).json({
+        success: false,
+        message: `${problemCount} problems use this domain. Deactivate it instead, or move the problems first.`
+      });
+      return;
+    }
+
+    await domain.deleteOne();
+    clearDomainCache();
+
+    res.status(200).json({
+      success: true,
+      message: 'Domain deleted successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get active domains with published problem counts
+// @route   GET /api/v1/public/domains
+// @access  Public
+export const getPublicDomains = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const domains = (await getCachedDomains()).filter(domain => domain.isActive);
+    const counts = await countProblemsByDomain(publishedFilter());
+
+    res.status(200).json({
+      success: true,
+      count: domains.length,
+      data: domains.map(({ _id, name, slug, prefix, description, icon, order }) => ({
+        _id, name, slug, prefix, description, icon, order,
+        problemCount: counts.get(name) || 0
+      }))
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get an active domain by slug
+// @route   GET /api/v1/public/domains/:slug
+// @access  Public
+export const getPublicDomain = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const domain = await findDomain(req.params.slug);
+
+    if (!domain || !domain.isActive) {
+      res.status(404).json({
+        success: false,
+        message: 'Domain not found'
+      });
+      return;
+    }
+
+    const problemCount = await ProblemStatement.countDocuments({ ...publishedFilter(), domain: domain.name });
+    const { _id, name, slug, prefix, description, icon, order } = domain;
+
+    res.status(200).json({
+      success: true,
+      data: { _id, name, slug, prefix, description, icon, order, problemCount }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
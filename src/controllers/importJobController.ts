@@ -0,0 +1,126 @@
+import { Response, NextFunction } from 'express';
+import { ImportJob, IMPORT_JOB_STATUSES, ACTIVE_IMPORT_JOB_STATUSES } from '../models/ImportJob';
+import { AuthRequest } from '../middleware/auth';
+import { requestImportCancellation } from '../services/importJobs';
+
+// Admins see every job, faculty only the uploads they started
+const canAccessJob = (job: any, user: any): boolean => {
+  return user?.role === 'admin' || job.createdBy.toString() === user?.id;
+};
+
+// @desc    Get import jobs
+// @route   GET /api/v1/import-jobs
+// @access  Private/Admin/Faculty
+export const getImportJobs = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { status, page = 1, limit = 10 } = req.query;
+
+    const filter: any = {};
+    if (req.user?.role !== 'admin') filter.createdBy = req.user?.id;
+    if (status && IMPORT_JOB_STATUSES.includes(String(status))) filter.status = status;
+
+    const skip = (Number(page) - 1) * Number(limit);
+
+    // Reports can be large, they are only returned for a single job
+    const jobs = await ImportJob.find(filter)
+      .select('-report -rowErrors')
+      .populate('createdBy', 'name email')
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(Number(limit));
+
+    const total = await ImportJob.countDocuments(filter);
+
+    res.status(200).json({
+      success: true,
+      count: jobs.length,
+      total,
+      page: Number(page),
+      pages: Math.ceil(total / Number(limit)),
+      data: jobs
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get import job progress, and its report once finished
+// @route   GET /api/v1/import-jobs/:id
+// @access  Private/Admin/Faculty
+export const getImportJob = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const job = await ImportJob.findById(req.params.id);
+
+    if (!job) {
+      res.status(404).json({
+        success: false,
+        message: 'Import job not found'
+      });
+      return;
+    }
+
+    if (!canAccessJob(job, req.user)) {
+      res.status(403).json({
+        success: false,
+        message: 'Not authorized to view this import job'
+      });
+      return;
+    }
+
+    await job.populate('createdBy', 'name email');
+
+    res.status(200).json({
+      success: true,
+      data: job
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Cancel a queued or running import job
+// @route   PUT /api/v1/import-jobs/:id/cancel
+// @access  Private/Admin/Faculty
+export const cancelImportJob = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const job = await ImportJob.findById(req.params.id).select('-report');
+
+    if (!job) {
+      res.status(404).json({
+        success: false,
+        message: 'Import job not found'
+      });
+      return;
+    }
+
+    if (!canAccessJob(job, req.user)) {
+      res.status(403).json({
+        success: false,
+        message: 'Not authorized to cancel this import job'
+      });
+      return;
+    }
+
+    const cancelled = ACTIVE_IMPORT_JOB_STATUSES.includes(job.status)
+      ? await requestImportCancellation(String(job._id))
+      : null;
+
+    if (!cancelled) {
+      res.status(400).json({
+        success: false,
+        message: 'Import job has already finished'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: cancelled.status === 'Cancelled'
+        ? 'Import job cancelled'
+        : 'Cancellation requested, the job stops after the current row',
+      data: cancelled
+    });
+  } catch (error) {
+    next(error);
+  }
+};
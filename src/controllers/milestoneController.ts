@@ -0,0 +1,423 @@
+import { Request, Response, NextFunction } from 'express';
+import fs from 'fs';
+import { validationResult } from 'express-validator';
+import { Milestone, OPEN_MILESTONE_STATUSES } from '../models/Milestone';
+import { ProjectAllocation } from '../models/ProjectAllocation';
+import { ProblemStatement } from '../models/Problem';
+import { Team } from '../models/Team';
+import { AuthRequest } from '../middleware/auth';
+import { generateMilestones } from '../utils/milestones';
+
+// Faculty and admins see everything, students only their own or their team's allocations
+const canAccessAllocation = async (allocation: any, user: any): Promise<boolean> => {
+  if (['admin', 'faculty'].includes(user?.role)) return true;
+  if (allocation.student.toString() === user?.id) return true;
+  if (!allocation.team) return false;
+  return !!(await Team.exists({ _id: allocation.team, members: user?.id }));
+};
+
+// Remove an uploaded file that never made it into a submission
+const discardUpload = (file?: Express.Multer.File): void => {
+  if (file) {
+    fs.unlink(file.path, () => undefined);
+  }
+};
+
+// @desc    Get milestones of an allocation
+// @route   GET /api/v1/allocations/:id/milestones
+// @access  Private
+export const getAllocationMilestones = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const allocation = await ProjectAllocation.findById(req.params.id);
+
+    if (!allocation) {
+      res.status(404).json({
+        success: false,
+        message: 'Allocation not found'
+      });
+      return;
+    }
+
+    if (!(await canAccessAllocation(allocation, req.user))) {
+      res.status(403).json({
+        success: false,
+        message: 'Not authorized to view these milestones'
+      });
+      return;
+    }
+
+    const milestones = await Milestone.find({ allocation: allocation._id })
+      .populate('submissions.submittedBy', 'name email')
+      .populate('reviewedBy', 'name email')
+      .sort({ order: 1 });
+
+    res.status(200).json({
+      success: true,
+      count: milestones.length,
+      data: milestones
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Generate milestones for an approved allocation
+// @route   POST /api/v1/allocations/:id/milestones/generate
+// @access  Private/Admin/Faculty
+export const generateAllocationMilestones = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const allocation = await ProjectAllocation.findById(req.params.id);
+
+    if (!allocation) {
+      res.status(404).json({
+        success: false,
+        message: 'Allocation not found'
+      });
+      return;
+    }
+
+    if (allocation.status !== 'Approved') {
+      res.status(400).json({
+        success: false,
+        message: 'Milestones can only be generated for approved allocations'
+      });
+      return;
+    }
+
+    if (await Milestone.exists({ allocation: allocation._id })) {
+      res.status(400).json({
+        success: false,
+        message: 'Milestones have already been generated for this allocation'
+      });
+      return;
+    }
+
+    const problem = await ProblemStatement.findById(allocation.problem);
+
+    if (!problem) {
+      res.status(404).json({
+        success: false,
+        message: 'Problem not found'
+      });
+      return;
+    }
+
+    const milestones = await generateMilestones(allocation, problem, allocation.reviewedAt || new Date());
+
+    res.status(201).json({
+      success: true,
+      message: `${milestones.length} milestones generated`,
+      data: milestones
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get overdue milestones report
+// @route   GET /api/v1/milestones/overdue
+// @access  Private/Admin
+export const getOverdueMilestones = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { batch, page = 1, limit = 20 } = req.query;
+
+    const filter: any = {
+      status: { $in: OPEN_MILESTONE_STATUSES },
+      dueDate: { $lt: new Date() }
+    };
+
+    // Only approved allocations are still being worked on, milestones of withdrawn or rejected ones are left out.
+    // Milestones don't carry the batch, so that is narrowed down through the allocations too.
+    const allocations = await ProjectAllocation.find({ status: 'Approved', ...(batch ? { batch } : {}) }).select('_id');
+    filter.allocation = { $in: allocations.map(allocation => allocation._id) };
+
+    const skip = (Number(page) - 1) * Number(limit);
+
+    const milestones = await Milestone.find(filter)
+      .populate({
+        path: 'allocation',
+        select: 'student team batch',
+        populate: [
+          { path: 'student', select: 'name email' },
+          { path: 'team', select: 'name' }
+        ]
+      })
+      .populate('problem', 'id title')
+      .sort({ dueDate: 1 })
+      .skip(skip)
+      .limit(Number(limit));
+
+    const total = await Milestone.countDocuments(filter);
+
+    const now = Date.now();
+    const data = milestones.map(milestone => ({
+      ...milestone.toObject(),
+      daysOverdue: Math.floor((now - milestone.dueDate.getTime()) / (24 * 60 * 60 * 1000))
+    }));
+
+    res.status(200).json({
+      success: true,
+      count: data.length,
+      total,
+      page: Number(page),
+      pages: Math.ceil(total / Number(limit)),
+      data
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get single milestone
+// @route   GET /api/v1/milestones/:id
+// @access  Private
+export const getMilestone = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const milestone = await Milestone.findById(req.params.id)
+      .populate('problem', 'id title')
+      .populate('submissions.submittedBy', 'name email')
+      .populate('reviewedBy', 'name email');
+
+    if (!milestone) {
+      res.status(404).json({
+        success: false,
+        message: 'Milestone not found'
+      });
+      return;
+    }
+
+    const allocation = await ProjectAllocation.findById(milestone.allocation);
+    if (!allocation || !(await canAccessAllocation(allocation, req.user))) {
+      res.status(403).json({
+        success: false,
+        message: 'Not authorized to view this milestone'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: milestone
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Update milestone due date
+// @route   PUT /api/v1/milestones/:id
+// @access  Private/Admin/Faculty
+export const updateMilestone = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        errors: errors.array()
+      });
+      return;
+    }
+
+    const milestone = await Milestone.findByIdAndUpdate(
+      req.params.id,
+      { dueDate: req.body.dueDate },
+      { new: true, runValidators: true }
+    );
+
+    if (!milestone) {
+      res.status(404).json({
+        success: false,
+        message: 'Milestone not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Milestone updated successfully',
+      data: milestone
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Submit work for a milestone (file upload or link)
+// @route   POST /api/v1/milestones/:id/submissions
+// @access  Private/Student
+export const submitMilestone = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { url, note } = req.body;
+
+    if (!req.file && !url) {
+      res.status(400).json({
+        success: false,
+        message: 'Please upload a file or provide a link'
+      });
+      return;
+    }
+
+    if (!req.file && !/^https?:\/\/\S+$/i.test(url)) {
+      res.status(400).json({
+        success: false,
+        message: 'Please provide a valid http(s) link'
+      });
+      return;
+    }
+
+    const milestone = await Milestone.findById(req.params.id);
+
+    if (!milestone) {
+      discardUpload(req.file);
+      res.status(404).json({
+        success: false,
+        message: 'Milestone not found'
+      });
+      return;
+    }
+
+    const allocation = await ProjectAllocation.findById(milestone.allocation);
+    if (!allocation || req.user?.role !== 'student' || !(await canAccessAllocation(allocation, req.user))) {
+      discardUpload(req.file);
+      res.status(403).json({
+        success: false,
+        message: 'Not authorized to submit for this milestone'
+      });
+      return;
+    }
+
+    if (allocation.status !== 'Approved' || milestone.status === 'Approved') {
+      discardUpload(req.file);
+      res.status(400).json({
+        success: false,
+        message: milestone.status === 'Approved'
+          ? 'This milestone has already been signed off'
+          : 'Submissions are only accepted for approved allocations'
+      });
+      return;
+    }
+
+    milestone.submissions.push(req.file
+      ? {
+        submittedBy: req.user?.id,
+        type: 'file',
+        fileName: req.file.originalname,
+        filePath: req.file.path,
+        fileSize: req.file.size,
+        mimeType: req.file.mimetype,
+        note
+      } as any
+      : {
+        submittedBy: req.user?.id,
+        type: 'link',
+        url,
+        note
+      } as any);
+    milestone.status = 'Submitted';
+    await milestone.save();
+
+    const populatedMilestone = await Milestone.findById(milestone._id)
+      .populate('submissions.submittedBy', 'name email');
+
+    res.status(201).json({
+      success: true,
+      message: 'Submission received',
+      data: populatedMilestone
+    });
+  } catch (error) {
+    discardUpload(req.file);
+    next(error);
+  }
+};
+
+// @desc    Download a submitted file
+// @route   GET /api/v1/milestones/:id/submissions/:submissionId/file
+// @access  Private
+export const downloadSubmission = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const milestone = await Milestone.findById(req.params.id).select('+submissions.filePath');
+
+    if (!milestone) {
+      res.status(404).json({
+        success: false,
+        message: 'Milestone not found'
+      });
+      return;
+    }
+
+    const allocation = await ProjectAllocation.findById(milestone.allocation);
+    if (!allocation || !(await canAccessAllocation(allocation, req.user))) {
+      res.status(403).json({
+        success: false,
+        message: 'Not authorized to download this submission'
+      });
+      return;
+    }
+
+    const submission = milestone.submissions.find(sub => sub._id.toString() === req.params.submissionId);
+
+    if (!submission || submission.type !== 'file' || !submission.filePath || !fs.existsSync(submission.filePath)) {
+      res.status(404).json({
+        success: false,
+        message: 'Submission file not found'
+      });
+      return;
+    }
+
+    res.download(submission.filePath, submission.fileName || 'submission');
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Sign off or request changes on a milestone
+// @route   PUT /api/v1/milestones/:id/review
+// @access  Private/Admin/Faculty
+export const reviewMilestone = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        errors: errors.array()
+      });
+      return;
+    }
+
+    const { decision, feedback } = req.body;
+
+    const milestone = await Milestone.findById(req.params.id);
+
+    if (!milestone) {
+      res.status(404).json({
+        success: false,
+        message: 'Milestone not found'
+      });
+      return;
+    }
+
+    if (milestone.status !== 'Submitted') {
+      res.status(400).json({
+        success: false,
+        message: 'Only submitted milestones can be reviewed'
+      });
+      return;
+    }
+
+    milestone.status = decision === 'approve' ? 'Approved' : 'Changes Requested';
+    milestone.feedback = feedback;
+    milestone.reviewedBy = req.user?.id;
+    milestone.reviewedAt = new Date();
+    await milestone.save();
+
+    res.status(200).json({
+      success: true,
+      message: decision === 'approve' ? 'Milestone signed off' : 'Changes requested',
+      data: milestone
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,98 @@
+import mongoose from 'mongoose';
+import { ProblemStatement } from '../models/Problem';
+import { createProblem, updateProblem } from './problemController';
+import { findPotentialDuplicates } from '../services/duplicateDetection';
+import { mockQuery, mockResponse } from '../testing/helpers';
+
+jest.mock('../services/duplicateDetection', () => ({
+  ...jest.requireActual('../services/duplicateDetection'),
+  findPotentialDuplicates: jest.fn()
+}));
+
+jest.mock('../utils/revisions', () => ({
+  ...jest.requireActual('../utils/revisions'),
+  recordRevision: jest.fn()
+}));
+
+const FACULTY = { id: '64b000000000000000000001', role: 'faculty' };
+
+// Fields a client must not be able to set through create or update
+const PROTECTED_FIELDS = {
+  id: 'AIM999',
+  featured: true,
+  viewCount: 5000,
+  deletedAt: '2026-01-01T00:00:00.000Z',
+  deletedBy: FACULTY.id,
+  attachments: [{ fileName: 'x.pdf', storageKey: 'attachments/other/x.pdf' }],
+  translations: [{ locale: 'hi', title: 'शीर्षक' }]
+};
+
+const CONTENT = {
+  title: 'Crop disease detection',
+  abstract: 'Detect crop diseases from leaf photos.',
+  technologies: ['Python'],
+  domain: 'Artificial Intelligence',
+  category: 'Major',
+  difficulty: 'Intermediate',
+  duration: '12 weeks',
+  deliverables: ['Source Code']
+};
+
+describe('createProblem', () => {
+  beforeEach(() => {
+    (findPotentialDuplicates as jest.Mock).mockResolvedValue([]);
+    jest.spyOn(ProblemStatement, 'findById').mockReturnValue(mockQuery({}));
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('builds the problem from the editable fields only', async () => {
+    const create = jest.spyOn(ProblemStatement, 'create').mockResolvedValue({ _id: 'p1' } as any);
+    const res = mockResponse();
+
+    await createProblem({ body: { ...CONTENT, ...PROTECTED_FIELDS }, user: FACULTY } as any, res, jest.fn());
+
+    expect(res.status).toHaveBeenCalledWith(201);
+    const data: any = create.mock.calls[0][0];
+    expect(data).toMatchObject({ ...CONTENT, status: 'Draft', createdBy: FACULTY.id });
+    Object.keys(PROTECTED_FIELDS).forEach(field => expect(data).not.toHaveProperty(field));
+  });
+});
+
+describe('updateProblem', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('changes editable fields and ignores the rest', async () => {
+    const problem = ProblemStatement.hydrate({
+      _id: new mongoose.Types.ObjectId(),
+      ...CONTENT,
+      id: 'AIM001',
+      status: 'Draft',
+      featured: false,
+      viewCount: 12,
+      deletedAt: null,
+      attachments: [],
+      translations: [],
+      review: { state: 'None', comments: [] },
+      createdBy: new mongoose.Types.ObjectId(FACULTY.id)
+    });
+    jest.spyOn(problem, 'save').mockResolvedValue(problem);
+    jest.spyOn(ProblemStatement, 'findById').mockReturnValue(mockQuery(problem));
+    const res = mockResponse();
+
+    await updateProblem({
+      params: { id: String(problem._id) },
+      body: { title: 'Crop disease detection from photos', ...PROTECTED_FIELDS },
+      user: FACULTY
+    } as any, res, jest.fn());
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(problem.title).toBe('Crop disease detection from photos');
+    expect(problem.id).toBe('AIM001');
+    expect(problem.featured).toBe(false);
+    expect(problem.viewCount).toBe(12);
+    expect(problem.deletedAt).toBeNull();
+    expect(problem.attachments).toHaveLength(0);
+    expect(problem.translations).toHaveLength(0);
+  });
+});
@@ -1,31 +1,48 @@
 import { Request, Response, NextFunction } from 'express';
 import { validationResult } from 'express-validator';
-import { ProblemStatement, IProblemStatement } from '../models/Problem';
+import { ProblemStatement, IProblemStatement, PROBLEM_STATUSES } from '../models/Problem';
+import { ProblemRevision } from '../models/ProblemRevision';
 import { createError } from '../middleware/errorHandler';
 import { AuthRequest } from '../middleware/auth';
-import csv from 'csv-parser';
-import { Readable } from 'stream';
 import multer from 'multer';
+import { snapshotProblem, recordRevision, RESTORABLE_FIELDS, pickEditableFields } from '../utils/revisions';
+import {
+  getTransitionError,
+  applyStatusTransition,
+  applyReviewDecision,
+  resetApprovalOnEdit,
+  getInitialReview
+} from '../utils/problemWorkflow';
+import { publishedFilter } from '../utils/problemVisibility';
+import { escapeRegex, toTextSearch, toFacetBuckets } from '../utils/search';
+import { buildProblemFilter, getProblemSort } from '../utils/problemQuery';
+import { localizeProblem, localizeProblems } from '../utils/locale';
+import { purgeProblem, getPurgeDate, getTrashRetentionDays } from '../services/problemTrash';
+import { findSimilarProblems } from '../services/problemSimilarity';
+import { findPotentialDuplicates, findDuplicateClusters, getDuplicateThreshold } from '../services/duplicateDetection';
+import { getImportFormat, supportsTransactions, IMPORT_FORMATS, ImportFormat } from '../services/problemImport';
+import { enqueueImportJob } from '../services/importJobs';
+import { buildImportTemplate } from '../services/importTemplate';
+import { findDomain, withDomainDetails } from '../services/domains';
+import { streamProblemExport } from '../services/problemExport';
+import { writeProblemPdf, writeCatalogPdf, MAX_CATALOG_PROBLEMS } from '../services/problemBrochure';
 
 // @desc    Get all problems
 // @route   GET /api/v1/problems
 // @access  Public
 export const getProblems = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const { domain, difficulty, status, page = 1, limit = 10 } = req.query;
+    const { sort, page = 1, limit = 10 } = req.query;
     
-    // Build filter object
-    const filter: any = {};
-    if (domain) filter.domain = domain;
-    if (difficulty) filter.difficulty = difficulty;
-    if (status) filter.status = status;
+    // Build filter object, the public API only lists published problems whatever status is asked for
+    const filter = await buildProblemFilter(req.query, res.locals.publishedOnly ? publishedFilter() : {});
 
     // Pagination
     const skip = (Number(page) - 1) * Number(limit);
 
     const problems = await ProblemStatement.find(filter)
       .populate('createdBy', 'name email')
-      .sort({ createdAt: -1 })
+      .sort(getProblemSort(sort))
       .skip(skip)
       .limit(Number(limit));
 
@@ -37,7 +54,7 @@ export const getProblems = async (req: Request, res: Response, next: NextFunctio
       total,
       page: Number(page),
       pages: Math.ceil(total / Number(limit)),
-      data: problems
+      data: localizeProblems(problems, res.locals.locale)
     });
   } catch (error) {
     next(error);
@@ -84,12 +101,38 @@ export const createProblem = async (req: AuthRequest, res: Response, next: NextF
       return;
     }
 
+    const status = req.body.status || 'Draft';
+    const { review, error: statusError } = getInitialReview(status, req.user);
+    if (statusError) {
+      res.status(400).json({
+        success: false,
+        message: statusError
+      });
+      return;
+    }
+
+    // Likely duplicates block creation unless the author explicitly confirms with allowDuplicate
+    const { allowDuplicate } = req.body;
+    const body: any = pickEditableFields(req.body);
+    const duplicates = await findPotentialDuplicates(body);
+    if (duplicates.length > 0 && allowDuplicate !== true) {
+      res.status(409).json({
+        success: false,
+        message: 'Similar problems already exist. Resubmit with allowDuplicate: true to create it anyway.',
+        duplicates
+      });
+      return;
+    }
+
     const problemData = {
-      ...req.body,
+      ...body,
+      status,
+      review,
       createdBy: req.user?.id
     };
 
     const problem = await ProblemStatement.create(problemData);
+    await recordRevision(problem, null, 'create', req.user?.id);
 
     const populatedProblem = await ProblemStatement.findById(problem._id)
       .populate('createdBy', 'name email');
@@ -97,7 +140,8 @@ export const createProblem = async (req: AuthRequest, res: Response, next: NextF
     res.status(201).json({
       success: true,
       message: 'Problem created successfully',
-      data: populatedProblem
+      data: populatedProblem,
+      ...(duplicates.length > 0 && { warnings: { duplicates } })
     });
   } catch (error) {
     next(error);
@@ -109,7 +153,7 @@ export const createProblem = async (req: AuthRequest, res: Response, next: NextF
 // @access  Private
 export const updateProblem = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
-    let problem = await ProblemStatement.findById(req.params.id);
+    const problem = await ProblemStatement.findById(req.params.id);
 
     if (!problem) {
       res.status(404).json({
@@ -128,25 +172,47 @@ export const updateProblem = async (req: AuthRequest, res: Response, next: NextF
       return;
     }
 
-    problem = await ProblemStatement.findByIdAndUpdate(req.params.id, req.body, {
-      new: true,
-      runValidators: true
-    }).populate('createdBy', 'name email');
+    // Only editable fields are taken from the body, status and review change through the editorial workflow
+    const requestedStatus = req.body.status;
+    const updates = pickEditableFields(req.body);
+
+    // Save through the document so the previous content can be kept as a revision
+    const before = snapshotProblem(problem);
+    problem.set(updates);
+    resetApprovalOnEdit(problem, req.user);
+
+    if (requestedStatus && requestedStatus !== problem.status) {
+      const transitionError = getTransitionError(problem, requestedStatus);
+      if (transitionError) {
+        res.status(400).json({
+          success: false,
+          message: transitionError
+        });
+        return;
+      }
+      applyStatusTransition(problem, requestedStatus, req.user);
+    }
+
+    await problem.save();
+    await recordRevision(problem, before, 'update', req.user?.id);
+
+    const populatedProblem = await ProblemStatement.findById(problem._id)
+      .populate('createdBy', 'name email');
 
     res.status(200).json({
       success: true,
       message: 'Problem updated successfully',
-      data: problem
+      data: populatedProblem
     });
   } catch (error) {
     next(error);
   }
 };
 
-// @desc    Delete problem
+// @desc    Move problem to the trash
 // @route   DELETE /api/v1/problems/:id
 // @access  Private/Admin
-export const deleteProblem = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+export const deleteProblem = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
     const problem = await ProblemStatement.findById(req.params.id);
 
@@ -158,11 +224,101 @@ export const deleteProblem = async (req: Request, res: Response, next: NextFunct
       return;
     }
 
-    await ProblemStatement.findByIdAndDelete(req.params.id);
+    problem.deletedAt = new Date();
+    problem.deletedBy = req.user?.id;
+    await problem.save();
+
+    res.status(200).json({
+      success: true,
+      message: `Problem moved to trash, it will be permanently deleted after ${getTrashRetentionDays()} days`
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get trashed problems
+// @route   GET /api/v1/problems/trash
+// @access  Private/Admin
+export const getTrashedProblems = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { page = 1, limit = 10 } = req.query;
+
+    const filter = { deletedAt: { $ne: null } };
+    const skip = (Number(page) - 1) * Number(limit);
+
+    const problems = await ProblemStatement.find(filter)
+      .populate('createdBy', 'name email')
+      .populate('deletedBy', 'name email')
+      .sort({ deletedAt: -1 })
+      .skip(skip)
+      .limit(Number(limit));
+
+    const total = await ProblemStatement.countDocuments(filter);
+
+    res.status(200).json({
+      success: true,
+      count: problems.length,
+      total,
+      page: Number(page),
+      pages: Math.ceil(total / Number(limit)),
+      data: problems.map(problem => ({
+        ...problem.toObject(),
+        purgeAt: getPurgeDate(problem.deletedAt as Date)
+      }))
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Restore problem from the trash
+// @route   PUT /api/v1/problems/:id/restore
+// @access  Private/Admin
+export const restoreProblem = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const problem = await ProblemStatement.findOne({ _id: req.params.id, deletedAt: { $ne: null } });
+
+    if (!problem) {
+      res.status(404).json({
+        success: false,
+        message: 'Problem not found in trash'
+      });
+      return;
+    }
+
+    problem.deletedAt = null;
+    problem.deletedBy = undefined;
+    await problem.save();
 
     res.status(200).json({
       success: true,
-      message: 'Problem deleted successfully'
+      message: 'Problem restored successfully',
+      data: problem
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Permanently delete a trashed problem
+// @route   DELETE /api/v1/problems/:id/permanent
+// @access  Private/Admin
+export const purgeTrashedProblem = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const purged = await purgeProblem(req.params.id);
+
+    if (!purged) {
+      res.status(404).json({
+        success: false,
+        message: 'Problem not found in trash'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Problem permanently deleted'
     });
   } catch (error) {
     next(error);
@@ -174,24 +330,34 @@ export const deleteProblem = async (req: Request, res: Response, next: NextFunct
 // @access  Public
 export const getProblemsByDomain = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const { domain } = req.params;
-    const { page = 1, limit = 10 } = req.query;
+    const { sort, page = 1, limit = 10 } = req.query;
+
+    // The path takes the domain slug or name
+    const domain = await findDomain(req.params.domain);
+    if (!domain) {
+      res.status(404).json({
+        success: false,
+        message: 'Domain not found'
+      });
+      return;
+    }
 
     const skip = (Number(page) - 1) * Number(limit);
 
-    const problems = await ProblemStatement.find({ 
-      domain: domain.replace(/-/g, ' '),
-      status: 'Active'
-    })
+    // Domain comes from the path and only published problems are listed
+    const { status, ...query } = req.query;
+    const filter = await buildProblemFilter(query, {
+      ...publishedFilter(),
+      domain: domain.name
+    });
+
+    const problems = await ProblemStatement.find(filter)
       .populate('createdBy', 'name email')
-      .sort({ createdAt: -1 })
+      .sort(getProblemSort(sort))
       .skip(skip)
       .limit(Number(limit));
 
-    const total = await ProblemStatement.countDocuments({ 
-      domain: domain.replace(/-/g, ' '),
-      status: 'Active'
-    });
+    const total = await ProblemStatement.countDocuments(filter);
 
     res.status(200).json({
       success: true,
@@ -199,7 +365,8 @@ export const getProblemsByDomain = async (req: Request, res: Response, next: Nex
       total,
       page: Number(page),
       pages: Math.ceil(total / Number(limit)),
-      data: problems
+      domain,
+      data: localizeProblems(problems, res.locals.locale)
     });
   } catch (error) {
     next(error);
@@ -214,8 +381,8 @@ export const getFeaturedProblems = async (req: Request, res: Response, next: Nex
     const { limit = 6 } = req.query;
 
     const problems = await ProblemStatement.find({ 
-      featured: true,
-      status: 'Active'
+      ...publishedFilter(),
+      featured: true
     })
       .populate('createdBy', 'name email')
       .sort({ createdAt: -1 })
@@ -224,7 +391,7 @@ export const getFeaturedProblems = async (req: Request, res: Response, next: Nex
     res.status(200).json({
       success: true,
       count: problems.length,
-      data: problems
+      data: localizeProblems(problems, res.locals.locale)
     });
   } catch (error) {
     next(error);
@@ -238,7 +405,10 @@ export const getProblemByCustomId = async (req: Request, res: Response, next: Ne
   try {
     const { id } = req.params;
 
-    const problem = await ProblemStatement.findOne({ id: id.toUpperCase() })
+    const problem = await ProblemStatement.findOne({
+      ...(res.locals.publishedOnly ? publishedFilter() : {}),
+      id: id.toUpperCase()
+    })
       .populate('createdBy', 'name email');
 
     if (!problem) {
@@ -254,52 +424,137 @@ export const getProblemByCustomId = async (req: Request, res: Response, next: Ne
 
     res.status(200).json({
       success: true,
-      data: problem
+      data: localizeProblem(problem, res.locals.locale)
     });
   } catch (error) {
     next(error);
   }
 };
 
+// @desc    Get problems similar to a given one
+// @route   GET /api/v1/public/problems/:id/similar
+// @access  Public
+export const getSimilarProblems = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const limit = Math.min(Number(req.query.limit) || 6, 20);
+
+    const problem = await ProblemStatement.findOne({ ...publishedFilter(), id: id.toUpperCase() });
+
+    if (!problem) {
+      res.status(404).json({
+        success: false,
+        message: 'Problem not found'
+      });
+      return;
+    }
+
+    const similar = await findSimilarProblems(problem, limit);
+
+    res.status(200).json({
+      success: true,
+      count: similar.length,
+      data: similar.map(({ problem: match, score, sharedTechnologies, sharedTags }) => ({
+        ...localizeProblem(match, res.locals.locale),
+        similarity: score,
+        sharedTechnologies,
+        sharedTags
+      }))
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Runs a search aggregation returning one page of results plus facet counts over all matches.
+// Aggregations skip the schema's select: false, so storage keys are projected out here; translations
+// are only kept when the results are localized, which strips them afterwards.
+const runProblemSearch = async (match: any, sort: any, skip: number, limit: number, locale?: string) => {
+  const hidden = { 'attachments.storageKey': 0, ...(locale ? {} : { translations: 0 }) };
+  const [result] = await ProblemStatement.aggregate([
+    { $match: match },
+    ...(match.$text ? [{ $addFields: { score: { $meta: 'textScore' } } }] : []),
+    {
+      $facet: {
+        results: [{ $sort: sort }, { $skip: skip }, { $limit: limit }, { $project: hidden }],
+        total: [{ $count: 'count' }],
+        domain: [{ $group: { _id: '$domain', count: { $sum: 1 } } }, { $sort: { count: -1 } }],
+        difficulty: [{ $group: { _id: '$difficulty', count: { $sum: 1 } } }, { $sort: { count: -1 } }],
+        category: [{ $group: { _id: '$category', count: { $sum: 1 } } }, { $sort: { count: -1 } }],
+        technology: [
+          { $unwind: '$technologies' },
+          { $group: { _id: '$technologies', count: { $sum: 1 } } },
+          { $sort: { count: -1, _id: 1 } },
+          { $limit: 25 }
+        ]
+      }
+    }
+  ]);
+
+  return {
+    results: result.results as any[],
+    total: result.total[0]?.count || 0,
+    facets: {
+      domain: toFacetBuckets(result.domain),
+      difficulty: toFacetBuckets(result.difficulty),
+      category: toFacetBuckets(result.category),
+      technology: toFacetBuckets(result.technology)
+    }
+  };
+};
+
 // @desc    Search problems
 // @route   GET /api/v1/problems/search
 // @access  Public
 export const searchProblems = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const { q, domain, difficulty, category, page = 1, limit = 10 } = req.query;
-    
-    // Build search query
-    const searchQuery: any = { status: 'Active' };
-    
-    if (q) {
-      searchQuery.$or = [
-        { title: { $regex: q, $options: 'i' } },
-        { abstract: { $regex: q, $options: 'i' } },
-        { tags: { $in: [new RegExp(q as string, 'i')] } }
-      ];
-    }
+    const { q, sort, page = 1, limit = 10 } = req.query;
     
-    if (domain) searchQuery.domain = domain;
-    if (difficulty) searchQuery.difficulty = difficulty;
-    if (category) searchQuery.category = category;
+    // Build search query, only published problems are searchable
+    const { status, ...query } = req.query;
+    const searchQuery = await buildProblemFilter(query, publishedFilter());
 
     const skip = (Number(page) - 1) * Number(limit);
+    const text = toTextSearch(q);
+
+    // Relevance first unless the client picked another sort
+    const explicitSort = sort && sort !== 'relevance' ? getProblemSort(sort) : null;
+    const browseSort = explicitSort || getProblemSort('most_viewed');
+
+    let mode = text ? 'text' : 'browse';
+    let search = await runProblemSearch(
+      text ? { ...searchQuery, $text: { $search: text } } : searchQuery,
+      text && !explicitSort ? { score: -1, viewCount: -1, createdAt: -1 } : browseSort,
+      skip,
+      Number(limit),
+      res.locals.locale
+    );
+
+    // Text search only matches whole (stemmed) words, so fall back to a
+    // word-prefix match for partial input like "blockch"
+    if (text && search.total === 0) {
+      const prefix = new RegExp(`\\b${escapeRegex(text.split(' ')[0])}`, 'i');
+      search = await runProblemSearch(
+        { ...searchQuery, $or: [{ title: prefix }, { tags: prefix }, { technologies: prefix }] },
+        browseSort,
+        skip,
+        Number(limit),
+        res.locals.locale
+      );
+      mode = 'prefix';
+    }
 
-    const problems = await ProblemStatement.find(searchQuery)
-      .populate('createdBy', 'name email')
-      .sort({ viewCount: -1, createdAt: -1 })
-      .skip(skip)
-      .limit(Number(limit));
-
-    const total = await ProblemStatement.countDocuments(searchQuery);
+    const problems = await ProblemStatement.populate(search.results, { path: 'createdBy', select: 'name email' });
 
     res.status(200).json({
       success: true,
       count: problems.length,
-      total,
+      total: search.total,
       page: Number(page),
-      pages: Math.ceil(total / Number(limit)),
-      data: problems
+      pages: Math.ceil(search.total / Number(limit)),
+      mode,
+      facets: search.facets,
+      data: localizeProblems(problems, res.locals.locale)
     });
   } catch (error) {
     next(error);
@@ -311,12 +566,12 @@ export const searchProblems = async (req: Request, res: Response, next: NextFunc
 // @access  Private
 export const updateProblemStatus = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const { status } = req.body;
+    const { status, comment } = req.body;
     
-    if (!['Active', 'Draft', 'Archived'].includes(status)) {
+    if (!PROBLEM_STATUSES.includes(status)) {
       res.status(400).json({
         success: false,
-        message: 'Invalid status. Must be Active, Draft, or Archived'
+        message: `Invalid status. Must be one of: ${PROBLEM_STATUSES.join(', ')}`
       });
       return;
     }
@@ -340,8 +595,19 @@ export const updateProblemStatus = async (req: AuthRequest, res: Response, next:
       return;
     }
 
-    problem.status = status;
+    const transitionError = getTransitionError(problem, status);
+    if (transitionError) {
+      res.status(400).json({
+        success: false,
+        message: transitionError
+      });
+      return;
+    }
+
+    const before = snapshotProblem(problem);
+    applyStatusTransition(problem, status, req.user, comment);
     await problem.save();
+    await recordRevision(problem, before, 'status', req.user?.id);
 
     res.status(200).json({
       success: true,
@@ -353,6 +619,184 @@ export const updateProblemStatus = async (req: AuthRequest, res: Response, next:
   }
 };
 
+// @desc    Submit problem for editorial review
+// @route   PUT /api/v1/problems/:id/submit-review
+// @access  Private
+export const submitProblemForReview = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const problem = await ProblemStatement.findById(req.params.id);
+
+    if (!problem) {
+      res.status(404).json({
+        success: false,
+        message: 'Problem not found'
+      });
+      return;
+    }
+
+    // Check authorization
+    if (problem.createdBy.toString() !== req.user?.id && req.user?.role !== 'admin') {
+      res.status(403).json({
+        success: false,
+        message: 'Not authorized to update this problem'
+      });
+      return;
+    }
+
+    if (problem.status !== 'Draft') {
+      res.status(400).json({
+        success: false,
+        message: `Only Draft problems can be submitted for review, this one is ${problem.status}`
+      });
+      return;
+    }
+
+    const before = snapshotProblem(problem);
+    applyStatusTransition(problem, 'In Review', req.user, req.body.comment);
+    await problem.save();
+    await recordRevision(problem, before, 'status', req.user?.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Problem submitted for review',
+      data: problem
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Approve, request changes or comment on a problem in review
+// @route   PUT /api/v1/problems/:id/review
+// @access  Private/Reviewer
+export const reviewProblem = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        errors: errors.array()
+      });
+      return;
+    }
+
+    const { decision, comment, publish } = req.body;
+
+    const problem = await ProblemStatement.findById(req.params.id);
+
+    if (!problem) {
+      res.status(404).json({
+        success: false,
+        message: 'Problem not found'
+      });
+      return;
+    }
+
+    if (problem.status !== 'In Review') {
+      res.status(400).json({
+        success: false,
+        message: 'Only problems that are In Review can be reviewed'
+      });
+      return;
+    }
+
+    if (decision === 'request_changes' && !comment) {
+      res.status(400).json({
+        success: false,
+        message: 'Please explain which changes are needed'
+      });
+      return;
+    }
+
+    const before = snapshotProblem(problem);
+    applyReviewDecision(problem, decision, req.user, comment);
+
+    // Reviewers can approve and publish in one go
+    const publishNow = decision === 'approve' && (publish === true || publish === 'true');
+    if (publishNow) {
+      applyStatusTransition(problem, 'Active', req.user);
+    }
+
+    await problem.save();
+    await recordRevision(problem, before, 'status', req.user?.id);
+
+    const populatedProblem = await ProblemStatement.findById(problem._id)
+      .populate('createdBy', 'name email')
+      .populate('review.comments.author', 'name email');
+
+    res.status(200).json({
+      success: true,
+      message: decision === 'approve'
+        ? `Problem approved${publishNow ? ' and published' : ''}`
+        : decision === 'request_changes' ? 'Changes requested' : 'Comment added',
+      data: populatedProblem
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get problems waiting for review
+// @route   GET /api/v1/problems/review-queue
+// @access  Private/Reviewer
+export const getReviewQueue = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { state = 'Pending', page = 1, limit = 10 } = req.query;
+
+    const filter = { status: 'In Review', 'review.state': state };
+    const skip = (Number(page) - 1) * Number(limit);
+
+    const problems = await ProblemStatement.find(filter)
+      .populate('createdBy', 'name email')
+      .populate('review.submittedBy', 'name email')
+      .sort({ 'review.submittedAt': 1 })
+      .skip(skip)
+      .limit(Number(limit));
+
+    const total = await ProblemStatement.countDocuments(filter);
+
+    res.status(200).json({
+      success: true,
+      count: problems.length,
+      total,
+      page: Number(page),
+      pages: Math.ceil(total / Number(limit)),
+      data: problems
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get clusters of likely duplicate problems
+// @route   GET /api/v1/problems/duplicates
+// @access  Private/Admin
+export const getDuplicateReport = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const threshold = req.query.threshold ? Number(req.query.threshold) : getDuplicateThreshold();
+    if (isNaN(threshold) || threshold <= 0 || threshold > 1) {
+      res.status(400).json({
+        success: false,
+        message: 'threshold must be a number between 0 and 1'
+      });
+      return;
+    }
+
+    const filter = await buildProblemFilter({ domain: req.query.domain, status: req.query.status });
+    const clusters = await findDuplicateClusters(filter, threshold);
+
+    res.status(200).json({
+      success: true,
+      threshold,
+      count: clusters.length,
+      data: clusters
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 // @desc    Toggle featured status
 // @route   PUT /api/v1/problems/:id/featured
 // @access  Private/Admin
@@ -368,8 +812,10 @@ export const toggleFeatured = async (req: AuthRequest, res: Response, next: Next
       return;
     }
 
+    const before = snapshotProblem(problem);
     problem.featured = !problem.featured;
     await problem.save();
+    await recordRevision(problem, before, 'featured', req.user?.id);
 
     res.status(200).json({
       success: true,
@@ -381,6 +827,106 @@ export const toggleFeatured = async (req: AuthRequest, res: Response, next: Next
   }
 };
 
+// @desc    Get revision history of a problem
+// @route   GET /api/v1/problems/:id/revisions
+// @access  Private
+export const getProblemRevisions = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { page = 1, limit = 20 } = req.query;
+
+    const problem = await ProblemStatement.findById(req.params.id);
+
+    if (!problem) {
+      res.status(404).json({
+        success: false,
+        message: 'Problem not found'
+      });
+      return;
+    }
+
+    const skip = (Number(page) - 1) * Number(limit);
+
+    const revisions = await ProblemRevision.find({ problem: problem._id })
+      .populate('editedBy', 'name email')
+      .select('-snapshot')
+      .sort({ revision: -1 })
+      .skip(skip)
+      .limit(Number(limit));
+
+    const total = await ProblemRevision.countDocuments({ problem: problem._id });
+
+    res.status(200).json({
+      success: true,
+      count: revisions.length,
+      total,
+      page: Number(page),
+      pages: Math.ceil(total / Number(limit)),
+      data: revisions
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Restore a problem's content to a previous revision
+// @route   POST /api/v1/problems/:id/revisions/:revisionId/restore
+// @access  Private
+export const restoreProblemRevision = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const problem = await ProblemStatement.findById(req.params.id);
+
+    if (!problem) {
+      res.status(404).json({
+        success: false,
+        message: 'Problem not found'
+      });
+      return;
+    }
+
+    // Check if user is the creator or admin
+    if (problem.createdBy.toString() !== req.user?.id && req.user?.role !== 'admin') {
+      res.status(403).json({
+        success: false,
+        message: 'Not authorized to update this problem'
+      });
+      return;
+    }
+
+    const revision = await ProblemRevision.findOne({ _id: req.params.revisionId, problem: problem._id });
+
+    if (!revision) {
+      res.status(404).json({
+        success: false,
+        message: 'Revision not found'
+      });
+      return;
+    }
+
+    const before = snapshotProblem(problem);
+    RESTORABLE_FIELDS.forEach(field => {
+      if (revision.snapshot[field] !== undefined && revision.snapshot[field] !== null) {
+        problem.set(field, revision.snapshot[field]);
+      }
+    });
+    await problem.save();
+
+    const restored = await recordRevision(problem, before, 'restore', req.user?.id, revision.revision);
+
+    const populatedProblem = await ProblemStatement.findById(problem._id)
+      .populate('createdBy', 'name email');
+
+    res.status(200).json({
+      success: true,
+      message: restored
+        ? `Problem restored to revision ${revision.revision}`
+        : `Problem already matches revision ${revision.revision}`,
+      data: populatedProblem
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 // @desc    Get popular problems
 // @route   GET /api/v1/problems/popular
 // @access  Public
@@ -389,7 +935,7 @@ export const getPopularProblems = async (req: Request, res: Response, next: Next
     const { limit = 10 } = req.query;
 
     const problems = await ProblemStatement.find({ 
-      status: 'Active',
+      ...publishedFilter(),
       viewCount: { $gt: 0 }
     })
       .populate('createdBy', 'name email')
@@ -399,7 +945,7 @@ export const getPopularProblems = async (req: Request, res: Response, next: Next
     res.status(200).json({
       success: true,
       count: problems.length,
-      data: problems
+      data: localizeProblems(problems, res.locals.locale)
     });
   } catch (error) {
     next(error);
@@ -411,9 +957,12 @@ export const getPopularProblems = async (req: Request, res: Response, next: Next
 // @access  Public
 export const getPublicProblemStats = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
+    // Only count problems that are currently published
+    const published = publishedFilter();
+
     const stats = await ProblemStatement.aggregate([
       {
-        $match: { status: 'Active' } // Only count active problems for public stats
+        $match: published
       },
       {
         $group: {
@@ -426,13 +975,13 @@ export const getPublicProblemStats = async (req: Request, res: Response, next: N
     ]);
 
     const domainStats = await ProblemStatement.aggregate([
-      { $match: { status: 'Active' } },
+      { $match: published },
       { $group: { _id: '$domain', count: { $sum: 1 } } },
       { $sort: { count: -1 } }
     ]);
 
     const difficultyStats = await ProblemStatement.aggregate([
-      { $match: { status: 'Active' } },
+      { $match: published },
       { $group: { _id: '$difficulty', count: { $sum: 1 } } },
       { $sort: { count: -1 } }
     ]);
@@ -441,7 +990,7 @@ export const getPublicProblemStats = async (req: Request, res: Response, next: N
       success: true,
       data: {
         overview: stats[0] || { total: 0, featured: 0, totalViews: 0 },
-        domainDistribution: domainStats,
+        domainDistribution: await withDomainDetails(domainStats),
         difficultyDistribution: difficultyStats
       }
     });
@@ -462,6 +1011,7 @@ export const getProblemStats = async (req: Request, res: Response, next: NextFun
           total: { $sum: 1 },
           active: { $sum: { $cond: [{ $eq: ['$status', 'Active'] }, 1, 0] } },
           draft: { $sum: { $cond: [{ $eq: ['$status', 'Draft'] }, 1, 0] } },
+          inReview: { $sum: { $cond: [{ $eq: ['$status', 'In Review'] }, 1, 0] } },
           archived: { $sum: { $cond: [{ $eq: ['$status', 'Archived'] }, 1, 0] } },
           featured: { $sum: { $cond: ['$featured', 1, 0] } },
           totalViews: { $sum: '$viewCount' }
@@ -484,8 +1034,8 @@ export const getProblemStats = async (req: Request, res: Response, next: NextFun
     res.status(200).json({
       success: true,
       data: {
-        overview: stats[0] || { total: 0, active: 0, draft: 0, archived: 0, featured: 0, totalViews: 0 },
-        domainDistribution: domainStats,
+        overview: stats[0] || { total: 0, active: 0, draft: 0, inReview: 0, archived: 0, featured: 0, totalViews: 0 },
+        domainDistribution: await withDomainDetails(domainStats),
         difficultyDistribution: difficultyStats
       }
     });
@@ -494,7 +1044,7 @@ export const getProblemStats = async (req: Request, res: Response, next: NextFun
   }
 };
 
-// @desc    Bulk upload problems from CSV
+// @desc    Bulk upload problems from a CSV, XLSX or JSON file
 // @route   POST /api/v1/problems/bulk-upload
 // @access  Private/Admin
 export const bulkUploadProblems = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
@@ -502,170 +1052,160 @@ export const bulkUploadProblems = async (req: AuthRequest, res: Response, next:
     if (!req.file) {
       res.status(400).json({
         success: false,
-        message: 'No CSV file uploaded'
+        message: 'No file uploaded'
+      });
+      return;
+    }
+
+    const format = getImportFormat(req.file);
+    if (!format) {
+      res.status(400).json({
+        success: false,
+        message: 'Only CSV, XLSX or JSON files are allowed'
       });
       return;
     }
 
-    const results = {
-      imported: 0,
-      failed: 0,
-      errors: [] as Array<{ row: number; field: string; message: string; }>
+    // ?dryRun=true validates only, ?atomic=true imports all rows or none, ?mode=upsert updates rows
+    // whose id column matches an existing problem, ?duplicates=flag imports likely duplicates instead of skipping them
+    const options = {
+      mode: req.query.mode === 'upsert' ? 'upsert' as const : 'create' as const,
+      dryRun: req.query.dryRun === 'true',
+      atomic: req.query.atomic === 'true',
+      duplicates: req.query.duplicates === 'flag' ? 'flag' as const : 'skip' as const
     };
 
-    const problems: any[] = [];
-    const errors: Array<{ row: number; field: string; message: string; }> = [];
+    if (options.atomic && !options.dryRun && !(await supportsTransactions())) {
+      res.status(400).json({
+        success: false,
+        message: 'Atomic imports need MongoDB running as a replica set. Import without atomic=true instead.'
+      });
+      return;
+    }
 
-    // Parse CSV file
-    const stream = Readable.from(req.file.buffer.toString());
-    
-    await new Promise<void>((resolve, reject) => {
-      stream
-        .pipe(csv())
-        .on('data', (row: any) => {
-          problems.push(row);
-        })
-        .on('end', () => {
-          resolve();
-        })
-        .on('error', (error) => {
-          reject(error);
-        });
+    // Large files would outlive the request, so the import runs as a background job
+    const job = await enqueueImportJob(req.file, format, options, req.user);
+
+    res.status(202).json({
+      success: true,
+      message: 'Bulk upload queued. Poll the import job for progress and the final report.',
+      data: job,
+      statusUrl: `/api/v1/import-jobs/${job._id}`
     });
 
-    // Validate and process each row
-    for (let i = 0; i < problems.length; i++) {
-      const row = problems[i];
-      const rowNumber = i + 2; // +2 because CSV starts from row 2 (row 1 is header)
+  } catch (error) {
+    next(error);
+  }
+};
 
-      try {
-        // Validate required fields
-        const validationErrors: string[] = [];
+// @desc    Export problems matching the listing filters (?format=csv|xlsx|json)
+// @route   GET /api/v1/problems/export
+// @access  Private/Admin/Faculty
+export const exportProblems = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const format = String(req.query.format || 'csv').toLowerCase();
+    if (!IMPORT_FORMATS.includes(format)) {
+      res.status(400).json({
+        success: false,
+        message: `Invalid format. Must be one of: ${IMPORT_FORMATS.join(', ')}`
+      });
+      return;
+    }
 
-        if (!row.title || row.title.trim() === '') {
-          validationErrors.push('Title is required');
-        }
-        if (!row.abstract || row.abstract.trim() === '') {
-          validationErrors.push('Abstract is required');
-        }
-        if (!row.domain || row.domain.trim() === '') {
-          validationErrors.push('Domain is required');
-        }
-        if (!row.category || row.category.trim() === '') {
-          validationErrors.push('Category is required');
-        }
-        if (!row.difficulty || row.difficulty.trim() === '') {
-          validationErrors.push('Difficulty is required');
-        }
-        if (!row.duration || row.duration.trim() === '') {
-          validationErrors.push('Duration is required');
-        }
+    await streamProblemExport(format as ImportFormat, await buildProblemFilter(req.query), getProblemSort(req.query.sort), res);
+  } catch (error) {
+    // Once streaming has started the status can't change, so just cut the download short
+    if (res.headersSent) {
+      console.error('Problem export failed:', error);
+      res.destroy();
+      return;
+    }
+    next(error);
+  }
+};
 
-        // Validate domain
-        const validDomains = [
-          'AI & Machine Learning',
-          'IoT & Embedded Systems',
-          'Cloud Computing',
-          'Web & Mobile Applications',
-          'Cybersecurity & Blockchain',
-          'Data Science & Analytics',
-          'Networking & Communication',
-          'Mechanical / ECE Projects'
-        ];
-        if (row.domain && !validDomains.includes(row.domain.trim())) {
-          validationErrors.push(`Invalid domain. Must be one of: ${validDomains.join(', ')}`);
-        }
+// @desc    Download a branded PDF brochure for one problem
+// @route   GET /api/v1/problems/:id/pdf
+// @access  Private/Admin/Faculty
+export const getProblemPdf = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const problem = await ProblemStatement.findById(req.params.id).lean();
 
-        // Validate category
-        const validCategories = ['Major', 'Minor', 'Capstone'];
-        if (row.category && !validCategories.includes(row.category.trim())) {
-          validationErrors.push(`Invalid category. Must be one of: ${validCategories.join(', ')}`);
-        }
+    if (!problem) {
+      res.status(404).json({
+        success: false,
+        message: 'Problem not found'
+      });
+      return;
+    }
 
-        // Validate difficulty
-        const validDifficulties = ['Beginner', 'Intermediate', 'Advanced'];
-        if (row.difficulty && !validDifficulties.includes(row.difficulty.trim())) {
-          validationErrors.push(`Invalid difficulty. Must be one of: ${validDifficulties.join(', ')}`);
-        }
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${problem.id || problem._id}.pdf"`);
+    await writeProblemPdf(problem, res);
+  } catch (error) {
+    if (res.headersSent) {
+      console.error('Problem brochure failed:', error);
+      res.destroy();
+      return;
+    }
+    next(error);
+  }
+};
 
-        if (validationErrors.length > 0) {
-          validationErrors.forEach(error => {
-            errors.push({
-              row: rowNumber,
-              field: 'validation',
-              message: error
-            });
-          });
-          results.failed++;
-          continue;
-        }
+// @desc    Download a catalog PDF for problems matching the listing filters (published problems by default)
+// @route   GET /api/v1/problems/brochure
+// @access  Private/Admin/Faculty
+export const getCatalogPdf = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const filter = await buildProblemFilter({ status: 'Active', ...req.query });
 
-        // Parse array fields (separated by semicolons)
-        const parseArrayField = (field: string): string[] => {
-          if (!field || field.trim() === '') return [];
-          return field.split(';').map(item => item.trim()).filter(item => item !== '');
-        };
-
-        // Create problem statement data
-        const problemData = {
-          title: row.title.trim(),
-          abstract: row.abstract.trim(),
-          domain: row.domain.trim(),
-          category: row.category.trim(),
-          difficulty: row.difficulty.trim(),
-          duration: row.duration.trim(),
-          technologies: parseArrayField(row.technologies || ''),
-          deliverables: parseArrayField(row.deliverables || ''),
-          prerequisites: parseArrayField(row.prerequisites || ''),
-          learningOutcomes: parseArrayField(row.learningOutcomes || ''),
-          tags: parseArrayField(row.tags || ''),
-          status: row.status?.trim() || 'Draft',
-          featured: row.featured?.toLowerCase() === 'true' || false,
-          createdBy: req.user?.id
-        };
-
-        // Create the problem statement
-        await ProblemStatement.create(problemData);
-        results.imported++;
-
-      } catch (error: any) {
-        errors.push({
-          row: rowNumber,
-          field: 'database',
-          message: error.message || 'Failed to create problem statement'
-        });
-        results.failed++;
-      }
+    const total = await ProblemStatement.countDocuments(filter);
+    if (total > MAX_CATALOG_PROBLEMS) {
+      res.status(400).json({
+        success: false,
+        message: `${total} problems match these filters. Narrow them down to at most ${MAX_CATALOG_PROBLEMS} for one catalog.`
+      });
+      return;
     }
 
-    results.errors = errors;
+    const problems = await ProblemStatement.find(filter)
+      .sort(getProblemSort(req.query.sort, 'title'))
+      .lean();
 
-    res.status(200).json({
-      success: true,
-      message: `Bulk upload completed. ${results.imported} imported, ${results.failed} failed.`,
-      data: results
-    });
+    const title = String(req.query.title || 'Project Catalog').slice(0, 100);
 
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', 'attachment; filename="problem-catalog.pdf"');
+    await writeCatalogPdf(problems, title, res);
   } catch (error) {
+    if (res.headersSent) {
+      console.error('Problem catalog failed:', error);
+      res.destroy();
+      return;
+    }
     next(error);
   }
 };
 
-// @desc    Download CSV template
+// @desc    Download bulk upload template (?format=csv|xlsx|json)
 // @route   GET /api/v1/problems/template
 // @access  Private
 export const downloadTemplate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const csvContent = `title,abstract,domain,category,difficulty,duration,technologies,deliverables,prerequisites,learningOutcomes,tags,status,featured
-"AI-Powered Personal Finance Manager","Develop an intelligent personal finance management system that uses machine learning algorithms to analyze user spending patterns and provide personalized financial advice. The system will include features like budget tracking, expense categorization, investment recommendations, and financial goal setting.","AI & Machine Learning","Major","Advanced","12-16 weeks","Python;TensorFlow;React;Node.js;MongoDB","Complete source code;User interface;Documentation;Deployment guide","Strong programming skills;Basic ML knowledge;Web development experience","Implement ML algorithms;Design responsive web applications;Work with financial APIs","Machine Learning;Finance;Web Development;Data Analysis","Draft","false"
-"IoT Smart Home System","Create a comprehensive IoT-based smart home automation system that allows users to control various home appliances and monitor environmental conditions remotely. The system will include sensors for temperature, humidity, motion detection, and smart switches for controlling lights and fans.","IoT & Embedded Systems","Major","Intermediate","10-14 weeks","Arduino;Raspberry Pi;Python;MQTT;React Native","Hardware prototype;Mobile app;Documentation;Circuit diagrams","Electronics basics;Programming skills;IoT concepts","Work with IoT devices;Develop mobile applications;Understand sensor integration","IoT;Smart Home;Automation;Mobile Development","Draft","false"
-"Blockchain-Based Supply Chain Tracking","Implement a blockchain solution for tracking products throughout the supply chain, ensuring transparency and authenticity. The system will allow consumers to verify product origins and track the journey from manufacturer to retailer.","Cybersecurity & Blockchain","Major","Advanced","14-18 weeks","Solidity;Web3.js;React;Node.js;IPFS","Smart contracts;Web application;Documentation;Test cases","Blockchain fundamentals;Smart contract development;Web3 technologies","Develop smart contracts;Build decentralized applications;Understand supply chain processes","Blockchain;Supply Chain;Web3;Smart Contracts","Draft","false"
-"Cloud-Based E-Learning Platform","Build a scalable e-learning platform using cloud technologies that supports video streaming, real-time collaboration, and progress tracking. The platform will include features like course creation, student enrollment, assignment submission, and performance analytics.","Cloud Computing","Major","Intermediate","12-16 weeks","AWS;React;Node.js;MongoDB;Docker","Cloud deployment;Web application;API documentation;Database schema","Cloud computing basics;Web development;Database design","Deploy applications to cloud;Implement real-time features;Design scalable architectures","Cloud Computing;E-Learning;Real-time Applications;Scalability","Draft","false"
-"Cybersecurity Threat Detection System","Develop an AI-powered cybersecurity system that monitors network traffic and detects potential threats in real-time. The system will use machine learning algorithms to identify suspicious patterns and alert administrators about potential security breaches.","Cybersecurity & Blockchain","Major","Advanced","16-20 weeks","Python;TensorFlow;Kafka;Elasticsearch;React","Threat detection engine;Dashboard;Documentation;Test datasets","Cybersecurity knowledge;Machine learning;Network protocols","Implement ML-based threat detection;Build monitoring dashboards;Understand network security","Cybersecurity;Machine Learning;Network Security;Real-time Processing","Draft","false"`;
-
-    res.setHeader('Content-Type', 'text/csv');
-    res.setHeader('Content-Disposition', 'attachment; filename="problem-statements-template.csv"');
-    res.send(csvContent);
+    const format = String(req.query.format || 'csv').toLowerCase();
+    if (!IMPORT_FORMATS.includes(format)) {
+      res.status(400).json({
+        success: false,
+        message: `Invalid format. Must be one of: ${IMPORT_FORMATS.join(', ')}`
+      });
+      return;
+    }
+
+    const template = await buildImportTemplate(format as ImportFormat);
+
+    res.setHeader('Content-Type', template.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${template.fileName}"`);
+    res.send(template.body);
   } catch (error) {
     next(error);
   }
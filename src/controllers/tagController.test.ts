@@ -0,0 +1,51 @@
+import { ProblemStatement } from '../models/Problem';
+import { deleteTag } from './tagController';
+import { removeTag } from '../services/tags';
+import { mockQuery, mockResponse } from '../testing/helpers';
+
+jest.mock('../services/tags', () => ({
+  ...jest.requireActual('../services/tags'),
+  removeTag: jest.fn()
+}));
+
+const ADMIN = { id: '64b000000000000000000001', role: 'admin' };
+
+const requestDelete = async (problemCount: number, query: { [key: string]: string } = {}) => {
+  jest.spyOn(ProblemStatement, 'countDocuments').mockReturnValue(mockQuery(problemCount));
+  const res = mockResponse();
+  await deleteTag({ params: { tag: 'legacy' }, query, user: ADMIN } as any, res, jest.fn());
+  return res;
+};
+
+describe('deleteTag', () => {
+  beforeEach(() => (removeTag as jest.Mock).mockResolvedValue(3));
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  it('refuses to delete a tag problems still use', async () => {
+    const res = await requestDelete(3);
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(removeTag).not.toHaveBeenCalled();
+  });
+
+  it('counts drafts and trashed problems as users of the tag', async () => {
+    const count = jest.spyOn(ProblemStatement, 'countDocuments').mockReturnValue(mockQuery(1));
+    await deleteTag({ params: { tag: 'legacy' }, query: {}, user: ADMIN } as any, mockResponse(), jest.fn());
+    expect(count).toHaveBeenCalledWith({ tags: 'legacy' });
+    expect(count.mock.results[0].value.setOptions).toHaveBeenCalledWith({ withDeleted: true });
+  });
+
+  it('removes the tag when forced, recording who did it', async () => {
+    const res = await requestDelete(3, { force: 'true' });
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(removeTag).toHaveBeenCalledWith('legacy', ADMIN.id);
+  });
+
+  it('answers 404 for a tag no problem has', async () => {
+    const res = await requestDelete(0, { force: 'true' });
+    expect(res.status).toHaveBeenCalledWith(404);
+    expect(removeTag).not.toHaveBeenCalled();
+  });
+});
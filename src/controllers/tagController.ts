@@ -0,0 +1,171 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { ProblemStatement } from '../models/Problem';
+import { AuthRequest } from '../middleware/auth';
+import { countTags, findSimilarTags, mergeTags as mergeProblemTags, removeTag } from '../services/tags';
+import { publishedFilter } from '../utils/problemVisibility';
+
+// Largest tag cloud the public endpoint returns
+const MAX_CLOUD_TAGS = 200;
+
+// Cloud weights run from 1 (least used) to 5 (most used)
+const CLOUD_WEIGHTS = 5;
+
+// @desc    Get all tags with usage counts and groups of similar spellings
+// @route   GET /api/v1/tags
+// @access  Private/Admin
+export const getTags = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const [tags, published] = await Promise.all([countTags(), countTags(publishedFilter())]);
+    const publishedCounts = new Map(published.map(({ tag, count }) => [tag, count]));
+
+    const q = String(req.query.q || '').trim().toLowerCase();
+    const data = tags
+      .filter(({ tag }) => !q || tag.toLowerCase().includes(q))
+      .map(({ tag, count }) => ({ tag, problemCount: count, publishedCount: publishedCounts.get(tag) || 0 }));
+
+    res.status(200).json({
+      success: true,
+      count: data.length,
+      data,
+      similar: findSimilarTags(tags).map(group => group.map(({ tag, count }) => ({ tag, problemCount: count })))
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Rename a tag on every problem
+// @route   PUT /api/v1/tags/:tag
+// @access  Private/Admin
+export const renameTag = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        errors: errors.array()
+      });
+      return;
+    }
+
+    const { tag } = req.params;
+    const { name } = req.body;
+
+    const inUse = await ProblemStatement.exists({ tags: tag }).setOptions({ withDeleted: true });
+    if (!inUse) {
+      res.status(404).json({
+        success: false,
+        message: 'Tag not found'
+      });
+      return;
+    }
+
+    const updatedProblems = await mergeProblemTags([tag], name, req.user?.id);
+
+    res.status(200).json({
+      success: true,
+      message: `Tag renamed on ${updatedProblems} problems`,
+      data: { from: tag, to: name, updatedProblems }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Merge several tags into one
+// @route   POST /api/v1/tags/merge
+// @access  Private/Admin
+export const mergeTags = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        errors: errors.array()
+      });
+      return;
+    }
+
+    const { tags, into } = req.body;
+    const updatedProblems = await mergeProblemTags(tags, into, req.user?.id);
+
+    res.status(200).json({
+      success: true,
+      message: `${tags.length} tags merged into ${into} on ${updatedProblems} problems`,
+      data: { from: tags, to: into, updatedProblems }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Delete a tag. A tag still on problems (drafts and trashed ones included) is only taken off
+//          them with ?force=true, and each problem changed gets a revision.
+// @route   DELETE /api/v1/tags/:tag
+// @access  Private/Admin
+export const deleteTag = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { tag } = req.params;
+
+    const problemCount = await ProblemStatement.countDocuments({ tags: tag }).setOptions({ withDeleted: true });
+    if (problemCount === 0) {
+      res.status(404).json({
+        success: false,
+        message: 'Tag not found'
+      });
+      return;
+    }
+
+    if (req.query.force !== 'true') {
+      res.status(400).json({
+        success: false,
+        message: `${problemCount} problems use this tag. Merge it into another tag, or delete with force=true to remove it from all of them.`
+      });
+      return;
+    }
+
+    const updatedProblems = await removeTag(tag, req.user?.id);
+
+    res.status(200).json({
+      success: true,
+      message: `Tag removed from ${updatedProblems} problems`
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get the most used tags on published problems, weighted for a tag cloud
+// @route   GET /api/v1/public/tags
+// @access  Public
+export const getTagCloud = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit), 10) || 50, 1), MAX_CLOUD_TAGS);
+    const match: any = publishedFilter();
+    if (req.query.domain) match.domain = String(req.query.domain);
+
+    const tags = await countTags(match, limit);
+
+    // Spread counts over the weights on a log scale, so a few very common tags don't flatten the rest
+    const counts = tags.map(({ count }) => Math.log(count));
+    const min = Math.min(...counts);
+    const spread = Math.max(...counts) - min;
+
+    res.status(200).json({
+      success: true,
+      count: tags.length,
+      data: tags
+        .map(({ tag, count }) => ({
+          tag,
+          count,
+          weight: spread > 0 ? 1 + Math.round(((Math.log(count) - min) / spread) * (CLOUD_WEIGHTS - 1)) : CLOUD_WEIGHTS
+        }))
+        .sort((a, b) => a.tag.localeCompare(b.tag))
+    });
+  } catch (error) {
+    next(error);
+  }
+};
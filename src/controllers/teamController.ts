@@ -0,0 +1,520 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { Team, TEAM_SIZE_RULES } from '../models/Team';
+import { ProjectAllocation, OPEN_ALLOCATION_STATUSES } from '../models/ProjectAllocation';
+import { AuthRequest } from '../middleware/auth';
+
+const isMember = (team: any, userId: string): boolean => {
+  return team.members.some((member: any) => (member._id || member).toString() === userId);
+};
+
+const hasOpenAllocation = async (teamId: any): Promise<boolean> => {
+  const allocation = await ProjectAllocation.exists({ team: teamId, status: { $in: OPEN_ALLOCATION_STATUSES } });
+  return !!allocation;
+};
+
+// @desc    Create team
+// @route   POST /api/v1/teams
+// @access  Private/Student
+export const createTeam = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        errors: errors.array()
+      });
+      return;
+    }
+
+    const { name, category, batch } = req.body;
+
+    // A student can only belong to one team per batch
+    const existingTeam = await Team.findOne({ members: req.user?.id, batch });
+    if (existingTeam) {
+      res.status(400).json({
+        success: false,
+        message: `You are already a member of team ${existingTeam.name} for batch ${batch}`
+      });
+      return;
+    }
+
+    const team = await Team.create({
+      name,
+      category,
+      batch,
+      leader: req.user?.id,
+      members: [req.user?.id]
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Team created successfully',
+      data: team
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get all teams
+// @route   GET /api/v1/teams
+// @access  Private/Admin/Faculty
+export const getTeams = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { batch, category, locked, page = 1, limit = 10 } = req.query;
+
+    // Build filter object
+    const filter: any = {};
+    if (batch) filter.batch = batch;
+    if (category) filter.category = category;
+    if (locked !== undefined) filter.isLocked = locked === 'true';
+
+    // Pagination
+    const skip = (Number(page) - 1) * Number(limit);
+
+    const teams = await Team.find(filter)
+      .populate('leader', 'name email')
+      .populate('members', 'name email college course')
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(Number(limit));
+
+    const total = await Team.countDocuments(filter);
+
+    res.status(200).json({
+      success: true,
+      count: teams.length,
+      total,
+      page: Number(page),
+      pages: Math.ceil(total / Number(limit)),
+      data: teams
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get teams of current user
+// @route   GET /api/v1/teams/me
+// @access  Private
+export const getMyTeams = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const teams = await Team.find({ members: req.user?.id })
+      .populate('leader', 'name email')
+      .populate('members', 'name email')
+      .sort({ createdAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      count: teams.length,
+      data: teams
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get pending invitations for current user
+// @route   GET /api/v1/teams/invitations
+// @access  Private
+export const getMyInvitations = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const email = req.user?.email;
+
+    const teams = await Team.find({
+      invitations: { $elemMatch: { email, status: 'Pending' } }
+    })
+      .populate('leader', 'name email')
+      .select('name category batch leader members isLocked invitations');
+
+    const invitations = teams.map(team => {
+      const invitation = team.invitations.find(inv => inv.email === email && inv.status === 'Pending');
+      return {
+        team: {
+          _id: team._id,
+          name: team.name,
+          category: team.category,
+          batch: team.batch,
+          leader: team.leader,
+          memberCount: team.members.length
+        },
+        invitedAt: invitation?.invitedAt
+      };
+    });
+
+    res.status(200).json({
+      success: true,
+      count: invitations.length,
+      data: invitations
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get single team
+// @route   GET /api/v1/teams/:id
+// @access  Private
+export const getTeam = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const team = await Team.findById(req.params.id)
+      .populate('leader', 'name email')
+      .populate('members', 'name email college course');
+
+    if (!team) {
+      res.status(404).json({
+        success: false,
+        message: 'Team not found'
+      });
+      return;
+    }
+
+    if (req.user?.role === 'student' && !isMember(team, req.user?.id)) {
+      res.status(403).json({
+        success: false,
+        message: 'Not authorized to view this team'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: team
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Invite a student to the team by email
+// @route   POST /api/v1/teams/:id/invite
+// @access  Private/Student
+export const inviteMember = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        errors: errors.array()
+      });
+      return;
+    }
+
+    const email = String(req.body.email).toLowerCase();
+    const team = await Team.findById(req.params.id).populate('members', 'email');
+
+    if (!team) {
+      res.status(404).json({
+        success: false,
+        message: 'Team not found'
+      });
+      return;
+    }
+
+    if (team.leader.toString() !== req.user?.id) {
+      res.status(403).json({
+        success: false,
+        message: 'Only the team leader can invite members'
+      });
+      return;
+    }
+
+    if (team.isLocked) {
+      res.status(400).json({
+        success: false,
+        message: 'Team roster is locked'
+      });
+      return;
+    }
+
+    if (team.members.some((member: any) => member.email === email)) {
+      res.status(400).json({
+        success: false,
+        message: 'This student is already a member of the team'
+      });
+      return;
+    }
+
+    const pending = team.invitations.filter(inv => inv.status === 'Pending');
+    if (pending.some(inv => inv.email === email)) {
+      res.status(400).json({
+        success: false,
+        message: 'An invitation has already been sent to this email'
+      });
+      return;
+    }
+
+    // Outstanding invitations count towards the maximum so the roster can't overflow on accept
+    const { max } = TEAM_SIZE_RULES[team.category];
+    if (team.members.length + pending.length >= max) {
+      res.status(400).json({
+        success: false,
+        message: `A ${team.category} team can have at most ${max} members`
+      });
+      return;
+    }
+
+    team.invitations.push({ email, invitedBy: req.user?.id } as any);
+    await team.save();
+
+    res.status(200).json({
+      success: true,
+      message: `Invitation sent to ${email}`,
+      data: team
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Accept team invitation
+// @route   POST /api/v1/teams/:id/accept
+// @access  Private/Student
+export const acceptInvitation = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const team = await Team.findById(req.params.id);
+
+    if (!team) {
+      res.status(404).json({
+        success: false,
+        message: 'Team not found'
+      });
+      return;
+    }
+
+    const invitation = team.invitations.find(inv => inv.email === req.user?.email && inv.status === 'Pending');
+    if (!invitation) {
+      res.status(404).json({
+        success: false,
+        message: 'No pending invitation found for this team'
+      });
+      return;
+    }
+
+    if (team.isLocked) {
+      res.status(400).json({
+        success: false,
+        message: 'Team roster is locked'
+      });
+      return;
+    }
+
+    const otherTeam = await Team.findOne({ members: req.user?.id, batch: team.batch });
+    if (otherTeam) {
+      res.status(400).json({
+        success: false,
+        message: `You are already a member of team ${otherTeam.name} for batch ${team.batch}`
+      });
+      return;
+    }
+
+    invitation.status = 'Accepted';
+    invitation.respondedAt = new Date();
+    team.members.push(req.user?.id);
+    await team.save();
+
+    res.status(200).json({
+      success: true,
+      message: `You have joined ${team.name}`,
+      data: team
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Decline team invitation
+// @route   POST /api/v1/teams/:id/decline
+// @access  Private/Student
+export const declineInvitation = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const team = await Team.findById(req.params.id);
+
+    if (!team) {
+      res.status(404).json({
+        success: false,
+        message: 'Team not found'
+      });
+      return;
+    }
+
+    const invitation = team.invitations.find(inv => inv.email === req.user?.email && inv.status === 'Pending');
+    if (!invitation) {
+      res.status(404).json({
+        success: false,
+        message: 'No pending invitation found for this team'
+      });
+      return;
+    }
+
+    invitation.status = 'Declined';
+    invitation.respondedAt = new Date();
+    await team.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Invitation declined'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Leave team
+// @route   POST /api/v1/teams/:id/leave
+// @access  Private/Student
+export const leaveTeam = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const team = await Team.findById(req.params.id);
+
+    if (!team) {
+      res.status(404).json({
+        success: false,
+        message: 'Team not found'
+      });
+      return;
+    }
+
+    if (!isMember(team, req.user?.id)) {
+      res.status(400).json({
+        success: false,
+        message: 'You are not a member of this team'
+      });
+      return;
+    }
+
+    if (team.isLocked) {
+      res.status(400).json({
+        success: false,
+        message: 'Team roster is locked, ask faculty to unlock it first'
+      });
+      return;
+    }
+
+    team.members = team.members.filter(member => member.toString() !== req.user?.id);
+
+    // Last one out dissolves the team
+    if (team.members.length === 0) {
+      await Team.findByIdAndDelete(team._id);
+      res.status(200).json({
+        success: true,
+        message: 'You left the team and it has been dissolved'
+      });
+      return;
+    }
+
+    // Hand leadership over to the longest-standing remaining member
+    if (team.leader.toString() === req.user?.id) {
+      team.leader = team.members[0];
+    }
+    await team.save();
+
+    res.status(200).json({
+      success: true,
+      message: `You have left ${team.name}`
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Lock team roster
+// @route   PUT /api/v1/teams/:id/lock
+// @access  Private
+export const lockTeam = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const team = await Team.findById(req.params.id);
+
+    if (!team) {
+      res.status(404).json({
+        success: false,
+        message: 'Team not found'
+      });
+      return;
+    }
+
+    if (team.leader.toString() !== req.user?.id && !['admin', 'faculty'].includes(req.user?.role)) {
+      res.status(403).json({
+        success: false,
+        message: 'Only the team leader can lock the roster'
+      });
+      return;
+    }
+
+    if (team.isLocked) {
+      res.status(400).json({
+        success: false,
+        message: 'Team roster is already locked'
+      });
+      return;
+    }
+
+    const { min, max } = TEAM_SIZE_RULES[team.category];
+    if (team.members.length < min || team.members.length > max) {
+      res.status(400).json({
+        success: false,
+        message: `A ${team.category} team must have between ${min} and ${max} members`
+      });
+      return;
+    }
+
+    // Outstanding invitations are void once the roster is frozen
+    team.invitations.forEach(inv => {
+      if (inv.status === 'Pending') {
+        inv.status = 'Revoked';
+        inv.respondedAt = new Date();
+      }
+    });
+    team.isLocked = true;
+    team.lockedAt = new Date();
+    await team.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Team roster locked',
+      data: team
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Unlock team roster
+// @route   PUT /api/v1/teams/:id/unlock
+// @access  Private/Admin/Faculty
+export const unlockTeam = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const team = await Team.findById(req.params.id);
+
+    if (!team) {
+      res.status(404).json({
+        success: false,
+        message: 'Team not found'
+      });
+      return;
+    }
+
+    if (await hasOpenAllocation(team._id)) {
+      res.status(400).json({
+        success: false,
+        message: 'Cannot unlock a team with a pending or approved allocation'
+      });
+      return;
+    }
+
+    team.isLocked = false;
+    team.lockedAt = undefined;
+    await team.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Team roster unlocked',
+      data: team
+    });
+  } catch (error) {
+    next(error);
+  }
+};
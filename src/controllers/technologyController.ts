@@ -0,0 +1,239 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { Technology, TECHNOLOGY_CATEGORIES } from '../models/Technology';
+import { ProblemStatement } from '../models/Problem';
+import { AuthRequest } from '../middleware/auth';
+import { technologyKey, clearTechnologyCache, renormalizeProblemTechnologies } from '../services/technologies';
+import { publishedFilter } from '../utils/problemVisibility';
+
+const EDITABLE_FIELDS = ['name', 'slug', 'aliases', 'category'];
+
+const countProblemsByTechnology = async (match: any = {}): Promise<Map<string, number>> => {
+  const buckets = await ProblemStatement.aggregate([
+    { $match: match },
+    { $unwind: '$technologies' },
+    { $group: { _id: '$technologies', count: { $sum: 1 } } }
+  ]);
+  return new Map(buckets.map(bucket => [bucket._id, bucket.count]));
+};
+
+// Aliases are trimmed, de-duplicated and never repeat the canonical name
+const cleanAliases = (name: string, aliases: string[]): string[] => {
+  const seen = new Set([technologyKey(name)]);
+  return aliases
+    .map(alias => String(alias).trim())
+    .filter(alias => {
+      const key = technologyKey(alias);
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+// Name or alias already claimed by another technology, if any
+const findConflict = async (name: string, aliases: string[], excludeId?: any): Promise<string | null> => {
+  const technologies = await Technology.find(excludeId ? { _id: { $ne: excludeId } } : {}).select('name aliases').lean();
+  const claimed = new Map<string, string>();
+  technologies.forEach(technology => {
+    [technology.name, ...(technology.aliases || [])].forEach(value => claimed.set(technologyKey(value), technology.name));
+  });
+
+  const taken = [name, ...aliases].find(value => claimed.has(technologyKey(value)));
+  return taken ? `${taken} is already used by ${claimed.get(technologyKey(taken))}` : null;
+};
+
+// @desc    Get all technologies with problem counts, plus values on problems that aren't in the registry
+// @route   GET /api/v1/technologies
+// @access  Private/Admin
+export const getTechnologies = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const technologies = await Technology.find().sort({ category: 1, name: 1 });
+    const counts = await countProblemsByTechnology();
+
+    const registered = new Set(technologies.map(technology => technology.name));
+    const unregistered = Array.from(counts.entries())
+      .filter(([name]) => !registered.has(name))
+      .map(([name, problemCount]) => ({ name, problemCount }))
+      .sort((a, b) => b.problemCount - a.problemCount);
+
+    res.status(200).json({
+      success: true,
+      count: technologies.length,
+      data: technologies.map(technology => ({ ...technology.toObject(), problemCount: counts.get(technology.name) || 0 })),
+      unregistered
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Create technology
+// @route   POST /api/v1/technologies
+// @access  Private/Admin
+export const createTechnology = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        errors: errors.array()
+      });
+      return;
+    }
+
+    const data: any = {};
+    EDITABLE_FIELDS.forEach(field => {
+      if (req.body[field] !== undefined) data[field] = req.body[field];
+    });
+    data.aliases = cleanAliases(data.name, data.aliases || []);
+
+    const conflict = await findConflict(data.name, data.aliases);
+    if (conflict) {
+      res.status(400).json({
+        success: false,
+        message: conflict
+      });
+      return;
+    }
+
+    const technology = await Technology.create(data);
+
+    // Problems that used the name or one of the aliases switch to the canonical spelling
+    const normalizedProblems = await renormalizeProblemTechnologies([technology.name, ...technology.aliases], req.user?.id);
+
+    res.status(201).json({
+      success: true,
+      message: normalizedProblems
+        ? `Technology created successfully, ${normalizedProblems} problems updated to the canonical name`
+        : 'Technology created successfully',
+      data: technology
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Update technology
+// @route   PUT /api/v1/technologies/:id
+// @access  Private/Admin
+export const updateTechnology = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        errors: errors.array()
+      });
+      return;
+    }
+
+    const technology = await Technology.findById(req.params.id);
+
+    if (!technology) {
+      res.status(404).json({
+        success: false,
+        message: 'Technology not found'
+      });
+      return;
+    }
+
+    const previousName = technology.name;
+    EDITABLE_FIELDS.forEach(field => {
+      if (req.body[field] !== undefined) technology.set(field, req.body[field]);
+    });
+
+    // A renamed technology keeps answering to its old name
+    const aliases = technology.name !== previousName ? [...technology.aliases, previousName] : technology.aliases;
+    technology.aliases = cleanAliases(technology.name, aliases);
+
+    const conflict = await findConflict(technology.name, technology.aliases, technology._id);
+    if (conflict) {
+      res.status(400).json({
+        success: false,
+        message: conflict
+      });
+      return;
+    }
+
+    await technology.save();
+
+    const normalizedProblems = await renormalizeProblemTechnologies([technology.name, ...technology.aliases], req.user?.id);
+
+    res.status(200).json({
+      success: true,
+      message: normalizedProblems
+        ? `Technology updated successfully, ${normalizedProblems} problems updated to the canonical name`
+        : 'Technology updated successfully',
+      data: technology
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Delete technology from the registry. Problems keep the name as plain text.
+// @route   DELETE /api/v1/technologies/:id
+// @access  Private/Admin
+export const deleteTechnology = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const technology = await Technology.findById(req.params.id);
+
+    if (!technology) {
+      res.status(404).json({
+        success: false,
+        message: 'Technology not found'
+      });
+      return;
+    }
+
+    await technology.deleteOne();
+    clearTechnologyCache();
+
+    res.status(200).json({
+      success: true,
+      message: 'Technology deleted successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get technologies with published problem counts for the filter UI
+// @route   GET /api/v1/public/technologies
+// @access  Public
+export const getPublicTechnologies = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { category } = req.query as any;
+
+    if (category && !TECHNOLOGY_CATEGORIES.includes(category)) {
+      res.status(400).json({
+        success: false,
+        message: `Invalid category. Must be one of: ${TECHNOLOGY_CATEGORIES.join(', ')}`
+      });
+      return;
+    }
+
+    const technologies = await Technology.find(category ? { category } : {})
+      .select('name slug aliases category')
+      .sort({ name: 1 })
+      .lean();
+    const counts = await countProblemsByTechnology(publishedFilter());
+
+    // Most used first; technologies no published problem uses are left out unless asked for
+    const data = technologies
+      .map(technology => ({ ...technology, problemCount: counts.get(technology.name) || 0 }))
+      .filter(technology => technology.problemCount > 0 || req.query.includeEmpty === 'true')
+      .sort((a, b) => b.problemCount - a.problemCount || a.name.localeCompare(b.name));
+
+    res.status(200).json({
+      success: true,
+      count: data.length,
+      categories: TECHNOLOGY_CATEGORIES,
+      data
+    });
+  } catch (error) {
+    next(error);
+  }
+};
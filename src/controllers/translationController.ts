@@ -0,0 +1,145 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { ProblemStatement } from '../models/Problem';
+import { AuthRequest } from '../middleware/auth';
+import { TRANSLATION_LOCALES } from '../utils/locale';
+
+const TRANSLATION_FIELDS = ['title', 'abstract', 'deliverables', 'learningOutcomes'];
+
+const unsupportedLocale = (res: Response, locale: string): boolean => {
+  if (TRANSLATION_LOCALES.includes(locale)) return false;
+  res.status(400).json({
+    success: false,
+    message: `Unsupported locale ${locale}. Translations can be added for: ${TRANSLATION_LOCALES.join(', ')}`
+  });
+  return true;
+};
+
+// @desc    Get a problem's translations
+// @route   GET /api/v1/problems/:id/translations
+// @access  Private/Admin/Faculty
+export const getTranslations = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const problem = await ProblemStatement.findById(req.params.id).select('id title translations');
+
+    if (!problem) {
+      res.status(404).json({
+        success: false,
+        message: 'Problem not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      count: problem.translations.length,
+      missing: TRANSLATION_LOCALES.filter(locale => !problem.translations.some(item => item.locale === locale)),
+      data: problem.translations
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Add or replace a problem's translation for a locale
+// @route   PUT /api/v1/problems/:id/translations/:locale
+// @access  Private/Admin/Faculty
+export const saveTranslation = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        errors: errors.array()
+      });
+      return;
+    }
+
+    const { locale } = req.params;
+    if (unsupportedLocale(res, locale)) return;
+
+    const problem = await ProblemStatement.findById(req.params.id);
+
+    if (!problem) {
+      res.status(404).json({
+        success: false,
+        message: 'Problem not found'
+      });
+      return;
+    }
+
+    // Check if user is the creator or admin
+    if (problem.createdBy.toString() !== req.user?.id && req.user?.role !== 'admin') {
+      res.status(403).json({
+        success: false,
+        message: 'Not authorized to translate this problem'
+      });
+      return;
+    }
+
+    const data: any = { locale, updatedBy: req.user?.id, updatedAt: new Date() };
+    TRANSLATION_FIELDS.forEach(field => {
+      if (req.body[field] !== undefined) data[field] = req.body[field];
+    });
+
+    const existing = problem.translations.find(item => item.locale === locale) as any;
+    if (existing) existing.set(data);
+    else problem.translations.push(data);
+
+    await problem.save();
+
+    res.status(existing ? 200 : 201).json({
+      success: true,
+      message: existing ? 'Translation updated successfully' : 'Translation added successfully',
+      data: problem.translations.find(item => item.locale === locale)
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Delete a problem's translation
+// @route   DELETE /api/v1/problems/:id/translations/:locale
+// @access  Private/Admin/Faculty
+export const deleteTranslation = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const problem = await ProblemStatement.findById(req.params.id);
+
+    if (!problem) {
+      res.status(404).json({
+        success: false,
+        message: 'Problem not found'
+      });
+      return;
+    }
+
+    // Check if user is the creator or admin
+    if (problem.createdBy.toString() !== req.user?.id && req.user?.role !== 'admin') {
+      res.status(403).json({
+        success: false,
+        message: 'Not authorized to translate this problem'
+      });
+      return;
+    }
+
+    const translation = problem.translations.find(item => item.locale === req.params.locale);
+    if (!translation) {
+      res.status(404).json({
+        success: false,
+        message: 'Translation not found'
+      });
+      return;
+    }
+
+    problem.translations = problem.translations.filter(item => item !== translation);
+    await problem.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Translation deleted successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -91,7 +91,7 @@ export const getUser = async (req: Request, res: Response, next: NextFunction):
 // @access  Private
 export const updateUser = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const { name, email, avatar, isActive } = req.body;
+    const { name, email, avatar, isActive, isReviewer } = req.body;
     
     // Check if user exists
     const user = await User.findById(req.params.id);
@@ -112,10 +112,16 @@ export const updateUser = async (req: AuthRequest, res: Response, next: NextFunc
       return;
     }
 
+    // Only admins can designate problem reviewers
+    const updates: any = { name, email, avatar, isActive };
+    if (req.user?.role === 'admin' && isReviewer !== undefined) {
+      updates.isReviewer = isReviewer;
+    }
+
     // Update user
     const updatedUser = await User.findByIdAndUpdate(
       req.params.id,
-      { name, email, avatar, isActive },
+      updates,
       { new: true, runValidators: true }
     ).select('-password');
 
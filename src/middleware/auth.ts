@@ -60,3 +60,18 @@ export const authorize = (...roles: string[]) => {
     next();
   };
 };
+
+// Admins and users flagged as reviewers can review problem statements
+export const authorizeReviewer = (req: AuthRequest, res: Response, next: NextFunction): void => {
+  if (!req.user) {
+    next(createError('Not authorized to access this route', 401));
+    return;
+  }
+
+  if (req.user.role !== 'admin' && !req.user.isReviewer) {
+    next(createError('Only admins and designated reviewers can review problems', 403));
+    return;
+  }
+
+  next();
+};
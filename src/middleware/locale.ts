@@ -0,0 +1,16 @@
+import { Request, Response, NextFunction } from 'express';
+import { DEFAULT_LOCALE, SUPPORTED_LOCALES } from '../utils/locale';
+
+// Picks the response locale from ?lang=hi, then the Accept-Language header, then English.
+// Controllers read it from res.locals.locale.
+export const detectLocale = (req: Request, res: Response, next: NextFunction): void => {
+  const requested = String(req.query.lang || '').toLowerCase().split('-')[0];
+  const locale = SUPPORTED_LOCALES.includes(requested)
+    ? requested
+    : req.acceptsLanguages(SUPPORTED_LOCALES) || DEFAULT_LOCALE;
+
+  res.locals.locale = locale;
+  res.setHeader('Content-Language', locale);
+  res.vary('Accept-Language');
+  next();
+};
@@ -0,0 +1,8 @@
+import { Request, Response, NextFunction } from 'express';
+
+// Marks requests on the public API, where only published problems may be read.
+// Controllers shared with the staff routes check res.locals.publishedOnly.
+export const publishedOnly = (req: Request, res: Response, next: NextFunction): void => {
+  res.locals.publishedOnly = true;
+  next();
+};
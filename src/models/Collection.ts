@@ -0,0 +1,75 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { slugify } from '../utils/slug';
+
+export const COLLECTION_VISIBILITIES = ['Public', 'Unlisted', 'Private'];
+
+// Most problems one collection can hold
+export const MAX_COLLECTION_PROBLEMS = 100;
+
+export interface ICollection extends Document {
+  title: string;                 // "Top 10 AI projects for CSE final year"
+  slug: string;                  // "top-10-ai-projects-for-cse-final-year", used in landing page URLs
+  description?: string;
+  problems: mongoose.Types.ObjectId[];  // In display order
+  visibility: 'Public' | 'Unlisted' | 'Private';  // Unlisted collections open by slug but aren't listed
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CollectionSchema: Schema = new Schema({
+  title: {
+    type: String,
+    required: [true, 'Please add a title'],
+    trim: true,
+    maxlength: [200, 'Title cannot be more than 200 characters']
+  },
+  slug: {
+    type: String,
+    unique: true,
+    trim: true,
+    lowercase: true,
+    match: [/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Slug can only contain lowercase letters, numbers and dashes']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [2000, 'Description cannot be more than 2000 characters']
+  },
+  problems: {
+    type: [{
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'ProblemStatement'
+    }],
+    validate: {
+      validator: (v: any[]) => v.length <= MAX_COLLECTION_PROBLEMS,
+      message: `A collection can hold at most ${MAX_COLLECTION_PROBLEMS} problems`
+    }
+  },
+  visibility: {
+    type: String,
+    enum: COLLECTION_VISIBILITIES,
+    default: 'Private'
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Slug follows the title unless one is given, and stays put on renames so landing page URLs keep working
+CollectionSchema.pre('validate', function(next) {
+  if (!this.slug && this.title) {
+    this.slug = slugify(this.title as string);
+  }
+  next();
+});
+
+// Index for better query performance
+CollectionSchema.index({ visibility: 1, updatedAt: -1 });
+CollectionSchema.index({ problems: 1 });
+
+export const Collection = mongoose.model<ICollection>('Collection', CollectionSchema);
@@ -0,0 +1,41 @@
+import mongoose, { Schema } from 'mongoose';
+
+// Named sequences, e.g. 'problem:AIM' for problem statement ids
+export interface ICounter {
+  _id: string;
+  seq: number;
+}
+
+const CounterSchema: Schema = new Schema({
+  _id: {
+    type: String,
+    required: true
+  },
+  seq: {
+    type: Number,
+    default: 0
+  }
+}, {
+  versionKey: false
+});
+
+export const Counter = mongoose.model<ICounter>('Counter', CounterSchema);
+
+// Atomically raises a counter to at least `value`, creating it when missing
+export const ensureCounterAtLeast = async (key: string, value: number): Promise<void> => {
+  await Counter.updateOne({ _id: key }, { $max: { seq: value } }, { upsert: true });
+};
+
+// Returns the next value of a sequence. `seed` gives the value to start after the first time a counter is used.
+export const nextSequence = async (key: string, seed?: () => Promise<number>): Promise<number> => {
+  if (seed && !(await Counter.exists({ _id: key }))) {
+    await ensureCounterAtLeast(key, await seed());
+  }
+
+  const counter = await Counter.findOneAndUpdate(
+    { _id: key },
+    { $inc: { seq: 1 } },
+    { new: true, upsert: true }
+  );
+  return counter!.seq;
+};
@@ -0,0 +1,89 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { slugify } from '../utils/slug';
+
+export interface IDomain extends Document {
+  name: string;                  // "AI & Machine Learning", stored as-is on problem statements
+  slug: string;                  // "ai-machine-learning", used in URLs
+  prefix: string;                // "AIM", starts every problem id in the domain
+  description?: string;
+  icon?: string;                 // Icon name or URL shown by the frontend
+  order: number;                 // Position in listings, lowest first
+  isActive: boolean;             // Inactive domains keep their problems but can't be picked for new ones
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DomainSchema: Schema = new Schema({
+  name: {
+    type: String,
+    required: [true, 'Please add a domain name'],
+    unique: true,
+    trim: true,
+    maxlength: [100, 'Domain name cannot be more than 100 characters']
+  },
+  slug: {
+    type: String,
+    unique: true,
+    trim: true,
+    lowercase: true,
+    match: [/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Slug can only contain lowercase letters, numbers and dashes']
+  },
+  prefix: {
+    type: String,
+    required: [true, 'Please add an id prefix'],
+    unique: true,
+    trim: true,
+    uppercase: true,
+    match: [/^[A-Z]{2,3}$/, 'Prefix must be 2 or 3 letters, like AIM'],
+    validate: {
+      // GEN is the fallback for problems whose domain has no prefix
+      validator: (v: string) => v !== 'GEN',
+      message: 'GEN is reserved and cannot be used as a prefix'
+    }
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Description cannot be more than 1000 characters']
+  },
+  icon: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Icon cannot be more than 500 characters']
+  },
+  order: {
+    type: Number,
+    default: 0
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+// Slug follows the name unless one is given, and stays put on renames so URLs keep working
+DomainSchema.pre('validate', function(next) {
+  if (!this.slug && this.name) {
+    this.slug = slugify(this.name as string);
+  }
+  next();
+});
+
+// Index for better query performance
+DomainSchema.index({ order: 1, name: 1 });
+
+export const Domain = mongoose.model<IDomain>('Domain', DomainSchema);
+
+// The taxonomy the catalog started with, created on first start
+export const DEFAULT_DOMAINS = [
+  { name: 'AI & Machine Learning', prefix: 'AIM', icon: 'brain' },
+  { name: 'IoT & Embedded Systems', prefix: 'IOT', icon: 'cpu' },
+  { name: 'Cloud Computing', prefix: 'CLD', icon: 'cloud' },
+  { name: 'Web & Mobile Applications', prefix: 'WEB', icon: 'globe' },
+  { name: 'Cybersecurity & Blockchain', prefix: 'CYS', icon: 'shield' },
+  { name: 'Data Science & Analytics', prefix: 'DAT', icon: 'bar-chart' },
+  { name: 'Networking & Communication', prefix: 'NET', icon: 'network' },
+  { name: 'Mechanical / ECE Projects', prefix: 'MEC', icon: 'settings' }
+];
@@ -0,0 +1,131 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const IMPORT_JOB_STATUSES = ['Queued', 'Running', 'Completed', 'Failed', 'Cancelled'];
+
+// Jobs in these states still have work left to do
+export const ACTIVE_IMPORT_JOB_STATUSES = ['Queued', 'Running'];
+
+export interface IImportJobProgress {
+  phase: 'parsing' | 'validating' | 'importing' | 'done';
+  total: number;
+  processed: number;
+  imported: number;
+  updated: number;
+  unchanged: number;
+  skipped: number;
+  failed: number;
+}
+
+export interface IImportJob extends Document {
+  fileName: string;
+  format: 'csv' | 'xlsx' | 'json';
+  fileSize: number;
+  options: {
+    mode: 'create' | 'upsert';
+    dryRun: boolean;
+    atomic: boolean;
+    duplicates: 'skip' | 'flag';
+  };
+  status: 'Queued' | 'Running' | 'Completed' | 'Failed' | 'Cancelled';
+  progress: IImportJobProgress;
+  rowErrors: Array<{ row: number; field: string; message: string }>;  // First row errors, updated while the job runs
+  report?: any;                  // Full import report once the job has finished
+  failureReason?: string;        // Why the job itself failed (unreadable file, restart...)
+  cancelRequested: boolean;
+  createdBy: mongoose.Types.ObjectId;
+  startedAt?: Date;
+  finishedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ImportJobSchema: Schema = new Schema({
+  fileName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  format: {
+    type: String,
+    enum: ['csv', 'xlsx', 'json'],
+    required: true
+  },
+  fileSize: {
+    type: Number,
+    default: 0
+  },
+  options: {
+    mode: {
+      type: String,
+      enum: ['create', 'upsert'],
+      default: 'create'
+    },
+    dryRun: {
+      type: Boolean,
+      default: false
+    },
+    atomic: {
+      type: Boolean,
+      default: false
+    },
+    duplicates: {
+      type: String,
+      enum: ['skip', 'flag'],
+      default: 'skip'
+    }
+  },
+  status: {
+    type: String,
+    enum: IMPORT_JOB_STATUSES,
+    default: 'Queued'
+  },
+  progress: {
+    phase: {
+      type: String,
+      enum: ['parsing', 'validating', 'importing', 'done'],
+      default: 'parsing'
+    },
+    total: { type: Number, default: 0 },
+    processed: { type: Number, default: 0 },
+    imported: { type: Number, default: 0 },
+    updated: { type: Number, default: 0 },
+    unchanged: { type: Number, default: 0 },
+    skipped: { type: Number, default: 0 },
+    failed: { type: Number, default: 0 }
+  },
+  rowErrors: [{
+    _id: false,
+    row: Number,
+    field: String,
+    message: String
+  }],
+  report: {
+    type: Schema.Types.Mixed
+  },
+  failureReason: {
+    type: String
+  },
+  cancelRequested: {
+    type: Boolean,
+    default: false
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  startedAt: {
+    type: Date
+  },
+  finishedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+// Index for better query performance
+ImportJobSchema.index({ createdBy: 1, createdAt: -1 });
+ImportJobSchema.index({ status: 1 });
+
+export const ImportJob = mongoose.model<IImportJob>('ImportJob', ImportJobSchema);
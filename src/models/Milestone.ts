@@ -0,0 +1,127 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IMilestoneSubmission {
+  _id: mongoose.Types.ObjectId;
+  submittedBy: mongoose.Types.ObjectId;
+  type: 'file' | 'link';
+  url?: string;                  // External link (GitHub repo, drive folder, etc.)
+  fileName?: string;             // Original file name for file submissions
+  filePath?: string;             // Location on disk, never exposed in responses
+  fileSize?: number;
+  mimeType?: string;
+  note?: string;
+  submittedAt: Date;
+}
+
+export interface IMilestone extends Document {
+  allocation: mongoose.Types.ObjectId;
+  problem: mongoose.Types.ObjectId;
+  title: string;                 // Taken from ProblemStatement.deliverables
+  order: number;
+  dueDate: Date;
+  status: 'Pending' | 'Submitted' | 'Approved' | 'Changes Requested';
+  submissions: IMilestoneSubmission[];
+  feedback?: string;
+  reviewedBy?: mongoose.Types.ObjectId;
+  reviewedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Statuses in which a milestone still needs work from the students
+export const OPEN_MILESTONE_STATUSES = ['Pending', 'Changes Requested'];
+
+const MilestoneSubmissionSchema: Schema = new Schema({
+  submittedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: ['file', 'link'],
+    required: true
+  },
+  url: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Link cannot be more than 500 characters']
+  },
+  fileName: {
+    type: String,
+    trim: true
+  },
+  filePath: {
+    type: String,
+    select: false
+  },
+  fileSize: {
+    type: Number
+  },
+  mimeType: {
+    type: String
+  },
+  note: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Note cannot be more than 1000 characters']
+  },
+  submittedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+const MilestoneSchema: Schema = new Schema({
+  allocation: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'ProjectAllocation',
+    required: true
+  },
+  problem: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'ProblemStatement',
+    required: true
+  },
+  title: {
+    type: String,
+    required: [true, 'Please add a title'],
+    trim: true,
+    maxlength: [200, 'Title cannot be more than 200 characters']
+  },
+  order: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  dueDate: {
+    type: Date,
+    required: [true, 'Please add a due date']
+  },
+  status: {
+    type: String,
+    enum: ['Pending', 'Submitted', 'Approved', 'Changes Requested'],
+    default: 'Pending'
+  },
+  submissions: [MilestoneSubmissionSchema],
+  feedback: {
+    type: String,
+    trim: true,
+    maxlength: [2000, 'Feedback cannot be more than 2000 characters']
+  },
+  reviewedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  reviewedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+// Index for better query performance
+MilestoneSchema.index({ allocation: 1, order: 1 });
+MilestoneSchema.index({ status: 1, dueDate: 1 }); // For overdue report
+
+export const Milestone = mongoose.model<IMilestone>('Milestone', MilestoneSchema);
@@ -0,0 +1,46 @@
+import mongoose from 'mongoose';
+import { ProblemStatement } from './Problem';
+
+// A stored problem as loaded from the database, before any edit
+const storedProblem = (fields: { [field: string]: any }) => ProblemStatement.hydrate({
+  _id: new mongoose.Types.ObjectId(),
+  id: 'AIM001',
+  title: 'Crop disease detection',
+  abstract: 'Detect crop diseases from leaf photos.',
+  technologies: ['Python'],
+  domain: 'Artificial Intelligence',
+  category: 'Major',
+  difficulty: 'Intermediate',
+  deliverables: ['Source Code'],
+  status: 'Draft',
+  createdBy: new mongoose.Types.ObjectId(),
+  ...fields
+});
+
+describe('ProblemStatement duration', () => {
+  beforeEach(() => jest.spyOn(console, 'warn').mockImplementation(() => undefined));
+  afterEach(() => jest.restoreAllMocks());
+
+  it('rewrites a parsed duration in the standard form', async () => {
+    const problem = storedProblem({ duration: '3 months' });
+    problem.title = 'Crop disease detection from photos';
+    await problem.validate();
+    expect(problem.duration).toBe('12 weeks');
+    expect(problem.durationWeeks).toMatchObject({ min: 12, max: 12 });
+  });
+
+  it('keeps stored text it cannot parse as written and reports it', async () => {
+    const problem = storedProblem({ duration: 'Semester 2 (16 weeks)' });
+    problem.title = 'Crop disease detection from photos';
+    await problem.validate();
+    expect(problem.duration).toBe('Semester 2 (16 weeks)');
+    expect(problem.durationWeeks?.max).toBeUndefined();
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Semester 2 (16 weeks)'));
+  });
+
+  it('rejects a new duration text it cannot parse', async () => {
+    const problem = storedProblem({ duration: '12 weeks' });
+    problem.duration = '2 hours/day for 8 weeks';
+    await expect(problem.validate()).rejects.toThrow(/Duration must be/);
+  });
+});
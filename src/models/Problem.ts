@@ -1,24 +1,90 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { nextSequence, ensureCounterAtLeast } from './Counter';
+import { getDomainPrefix, isActiveDomain } from '../services/domains';
+import { normalizeTechnologies } from '../services/technologies';
+import { parseDurationWeeks, formatDuration, getDurationError } from '../utils/duration';
+import { renderMarkdown, renderInlineMarkdown, markdownExcerpt } from '../utils/markdown';
+import { TRANSLATION_LOCALES } from '../utils/locale';
+import { removeFromCollections } from '../services/collections';
+
+export const PROBLEM_STATUSES = ['Draft', 'In Review', 'Active', 'Archived'];
+
+// Domain prefix followed by a number of at least three digits: AI001, AIM001, IOT1024
+export const PROBLEM_ID_PATTERN = /^[A-Z]{2,3}\d{3,}$/;
+
+export interface IReviewComment {
+  author: mongoose.Types.ObjectId;
+  body: string;
+  decision?: 'submit' | 'approve' | 'request_changes' | 'comment';
+  createdAt: Date;
+}
+
+export interface IProblemReview {
+  state: 'None' | 'Pending' | 'Approved' | 'Changes Requested';
+  submittedBy?: mongoose.Types.ObjectId;
+  submittedAt?: Date;
+  reviewedBy?: mongoose.Types.ObjectId;
+  reviewedAt?: Date;
+  comments: IReviewComment[];
+}
+
+export interface IProblemAttachment {
+  _id: mongoose.Types.ObjectId;
+  fileName: string;              // Original file name
+  storageKey: string;            // Location in the storage backend, never exposed in responses
+  contentType: string;
+  size: number;
+  checksum: string;              // SHA-256 of the file contents, hex encoded
+  description?: string;          // "Reference dataset", "Circuit diagram"...
+  uploadedBy: mongoose.Types.ObjectId;
+  uploadedAt: Date;
+}
+
+export interface IProblemTranslation {
+  _id: mongoose.Types.ObjectId;
+  locale: 'hi' | 'te';
+  title?: string;
+  abstract?: string;             // Markdown, rendered like the English abstract
+  abstractHtml?: string;
+  abstractExcerpt?: string;
+  deliverables: string[];
+  learningOutcomes: string[];
+  learningOutcomesHtml: string[];
+  updatedBy?: mongoose.Types.ObjectId;
+  updatedAt: Date;
+}
 
 export interface IProblemStatement extends Document {
   id: string;                    // AIM001, AIM002, etc.
   title: string;                 // "AI-Powered Personal Finance Manager"
-  abstract: string;              // Detailed description
+  abstract: string;              // Detailed description, Markdown
+  abstractHtml: string;          // Sanitized HTML rendered from abstract
+  abstractExcerpt: string;       // Plain-text summary for listings and search
   technologies: string[];        // ["HTML", "CSS", "JS", "Python"]
   domain: string;               // "AI & Machine Learning"
   category: 'Major' | 'Minor' | 'Capstone';
   difficulty: 'Beginner' | 'Intermediate' | 'Advanced';
-  duration: string;             // "8-10 weeks"
+  duration: string;             // "8-10 weeks", kept in step with durationWeeks
+  durationWeeks: { min: number; max: number };  // Parsed range used for filtering
   deliverables: string[];       // ["Source Code", "Documentation"]
   prerequisites: string[];      // Required knowledge
-  learningOutcomes: string[];   // What students will learn
-  status: 'Active' | 'Draft' | 'Archived';
+  learningOutcomes: string[];   // What students will learn, Markdown
+  learningOutcomesHtml: string[];  // Sanitized HTML rendered from learningOutcomes
+  status: 'Active' | 'Draft' | 'In Review' | 'Archived';
+  review: IProblemReview;       // Editorial review, only approved problems can go Active
+  publishAt?: Date;             // Approved problem goes Active at this time
+  archiveAt?: Date;             // Active problem is archived at this time
   createdAt: Date;
   updatedAt: Date;
   featured: boolean;            // For highlighting popular projects
   tags: string[];              // For better search/filtering
   createdBy: mongoose.Types.ObjectId;
   viewCount: number;           // Track popularity
+  seatCapacity: number;        // Max approved allocations per batch
+  attachments: IProblemAttachment[];  // Datasets, diagrams and other reference files
+  translations: IProblemTranslation[];  // At most one per locale, English stays on the problem itself
+  deletedAt?: Date | null;     // Set when the problem is moved to the trash
+  deletedBy?: mongoose.Types.ObjectId;
 }
 
 const ProblemStatementSchema: Schema = new Schema({
@@ -32,9 +98,9 @@ const ProblemStatementSchema: Schema = new Schema({
       validator: function(v: string) {
         // Only validate if ID is provided and not empty
         // Accept both 2-letter (AI001) and 3-letter (AIM001) formats
-        return !v || /^[A-Z]{2,3}\d{3}$/.test(v);
+        return !v || PROBLEM_ID_PATTERN.test(v);
       },
-      message: 'ID must be in format like AI001, AIM001, IOT002, etc.'
+      message: 'ID must be in format like AI001, AIM001, IOT002, IOT1024, etc.'
     }
   },
   title: {
@@ -48,6 +114,14 @@ const ProblemStatementSchema: Schema = new Schema({
     required: [true, 'Please add an abstract'],
     maxlength: [5000, 'Abstract cannot be more than 5000 characters']
   },
+  abstractHtml: {
+    type: String,
+    default: ''
+  },
+  abstractExcerpt: {
+    type: String,
+    default: ''
+  },
   technologies: [{
     type: String,
     required: true,
@@ -56,16 +130,15 @@ const ProblemStatementSchema: Schema = new Schema({
   domain: {
     type: String,
     required: [true, 'Please add a domain'],
-    enum: [
-      'AI & Machine Learning',
-      'IoT & Embedded Systems',
-      'Cloud Computing',
-      'Web & Mobile Applications',
-      'Cybersecurity & Blockchain',
-      'Data Science & Analytics',
-      'Networking & Communication',
-      'Mechanical / ECE Projects'
-    ]
+    validate: {
+      // Domains are managed in the Domain collection. Problems may stay in a domain that was
+      // deactivated later, but can't be moved into one.
+      validator: async function(this: any, v: string) {
+        if (this && typeof this.isModified === 'function' && !this.isNew && !this.isModified('domain')) return true;
+        return isActiveDomain(v);
+      },
+      message: (props: any) => `${props.value} is not an active domain`
+    }
   },
   category: {
     type: String,
@@ -85,6 +158,10 @@ const ProblemStatementSchema: Schema = new Schema({
     trim: true,
     maxlength: [50, 'Duration cannot be more than 50 characters']
   },
+  durationWeeks: {
+    min: { type: Number, min: 1 },
+    max: { type: Number, min: 1 }
+  },
   deliverables: [{
     type: String,
     required: true,
@@ -98,11 +175,63 @@ const ProblemStatementSchema: Schema = new Schema({
     type: String,
     trim: true
   }],
+  learningOutcomesHtml: [{
+    type: String
+  }],
   status: {
     type: String,
-    enum: ['Active', 'Draft', 'Archived'],
+    enum: PROBLEM_STATUSES,
     default: 'Draft'
   },
+  review: {
+    state: {
+      type: String,
+      enum: ['None', 'Pending', 'Approved', 'Changes Requested'],
+      default: 'None'
+    },
+    submittedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    submittedAt: Date,
+    reviewedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    reviewedAt: Date,
+    comments: [{
+      author: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+      },
+      body: {
+        type: String,
+        trim: true,
+        maxlength: [2000, 'Comment cannot be more than 2000 characters']
+      },
+      decision: {
+        type: String,
+        enum: ['submit', 'approve', 'request_changes', 'comment']
+      },
+      createdAt: {
+        type: Date,
+        default: Date.now
+      }
+    }]
+  },
+  publishAt: {
+    type: Date
+  },
+  archiveAt: {
+    type: Date,
+    validate: {
+      validator: function(this: any, v: Date) {
+        return !v || !this.publishAt || v > this.publishAt;
+      },
+      message: 'Archive date must be after the publish date'
+    }
+  },
   featured: {
     type: Boolean,
     default: false
@@ -120,6 +249,94 @@ const ProblemStatementSchema: Schema = new Schema({
     type: Number,
     default: 0,
     min: [0, 'View count cannot be negative']
+  },
+  seatCapacity: {
+    type: Number,
+    default: 5,
+    min: [1, 'Seat capacity must be at least 1']
+  },
+  attachments: [{
+    fileName: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    // Required when an attachment is added. Problems are usually loaded without this field, so attachments
+    // already stored aren't checked again; only attachmentController writes the list.
+    storageKey: {
+      type: String,
+      required: [function(this: any) { return this.isNew; }, 'Attachment storage key is missing'],
+      select: false
+    },
+    contentType: {
+      type: String,
+      required: true
+    },
+    size: {
+      type: Number,
+      required: true
+    },
+    checksum: {
+      type: String,
+      required: true
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Attachment description cannot be more than 200 characters']
+    },
+    uploadedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    uploadedAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+  translations: [{
+    locale: {
+      type: String,
+      enum: TRANSLATION_LOCALES,
+      required: true
+    },
+    title: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Title cannot be more than 200 characters']
+    },
+    abstract: {
+      type: String,
+      maxlength: [5000, 'Abstract cannot be more than 5000 characters']
+    },
+    abstractHtml: String,
+    abstractExcerpt: String,
+    deliverables: [{
+      type: String,
+      trim: true
+    }],
+    learningOutcomes: [{
+      type: String,
+      trim: true
+    }],
+    learningOutcomesHtml: [String],
+    updatedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    updatedAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+  deletedAt: {
+    type: Date,
+    default: null
+  },
+  deletedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
   }
 }, {
   timestamps: true
@@ -132,30 +349,150 @@ ProblemStatementSchema.index({ featured: 1, status: 1 });
 ProblemStatementSchema.index({ createdBy: 1 });
 ProblemStatementSchema.index({ id: 1 });
 ProblemStatementSchema.index({ tags: 1 });
+ProblemStatementSchema.index({ 'durationWeeks.min': 1, 'durationWeeks.max': 1 }); // For duration range filters
 ProblemStatementSchema.index({ viewCount: -1 }); // For popular problems
+ProblemStatementSchema.index({ status: 1, 'review.state': 1 }); // For review queue
+ProblemStatementSchema.index({ status: 1, publishAt: 1 }); // For scheduled publishing
+ProblemStatementSchema.index({ status: 1, archiveAt: 1 }); // For scheduled archiving
+ProblemStatementSchema.index({ deletedAt: 1 }); // For trash listing and purge
 
-// Domain to prefix mapping
-const domainPrefixMap: { [key: string]: string } = {
-  'AI & Machine Learning': 'AIM',
-  'IoT & Embedded Systems': 'IOT',
-  'Cloud Computing': 'CLD',
-  'Web & Mobile Applications': 'WEB',
-  'Cybersecurity & Blockchain': 'CYS',
-  'Data Science & Analytics': 'DAT',
-  'Networking & Communication': 'NET',
-  'Mechanical / ECE Projects': 'MEC'
+// Full-text search with field boosting, title matches rank highest
+ProblemStatementSchema.index(
+  { title: 'text', tags: 'text', technologies: 'text', abstract: 'text' },
+  { name: 'problem_text_search', weights: { title: 10, tags: 5, technologies: 5, abstract: 1 } }
+);
+
+// Trashed problems are hidden from every query unless the filter mentions deletedAt
+// or the query is run with { withDeleted: true }
+const excludeDeleted = function(this: mongoose.Query<any, any>) {
+  if (this.getOptions().withDeleted || this.getFilter().deletedAt !== undefined) return;
+  this.where({ deletedAt: null });
 };
 
+ProblemStatementSchema.pre(
+  ['find', 'findOne', 'countDocuments', 'distinct', 'findOneAndUpdate', 'updateOne', 'updateMany'],
+  excludeDeleted
+);
+
+// Same for aggregations, unless the first $match already filters on deletedAt
+ProblemStatementSchema.pre('aggregate', function() {
+  const pipeline = this.pipeline();
+  const first: any = pipeline[0];
+
+  if (first && first.$match) {
+    if (first.$match.deletedAt === undefined) first.$match.deletedAt = null;
+  } else {
+    pipeline.unshift({ $match: { deletedAt: null } });
+  }
+});
+
+export const formatProblemId = (prefix: string, sequence: number): string => `${prefix}${String(sequence).padStart(3, '0')}`;
+
+export const problemIdCounterKey = (prefix: string): string => `problem:${prefix}`;
+
+// Highest number already used with a prefix, trashed problems included
+export const getHighestIdNumber = async (prefix: string): Promise<number> => {
+  const problems = await ProblemStatement.find({ id: new RegExp(`^${prefix}\\d+$`) })
+    .setOptions({ withDeleted: true })
+    .select('id')
+    .lean();
+  return problems.reduce((max, problem) => Math.max(max, parseInt(problem.id.slice(prefix.length), 10)), 0);
+};
+
+// Takes the next number from the prefix's counter. Deleted problems leave gaps instead of freeing their ids,
+// and an id that was set by hand ahead of the counter moves the counter past it.
+export const generateProblemId = async (domain: string): Promise<string> => {
+  const prefix = await getDomainPrefix(domain);
+  const key = problemIdCounterKey(prefix);
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const id = formatProblemId(prefix, await nextSequence(key, () => getHighestIdNumber(prefix)));
+    if (!(await ProblemStatement.exists({ id }).setOptions({ withDeleted: true }))) return id;
+
+    await ensureCounterAtLeast(key, await getHighestIdNumber(prefix));
+  }
+
+  throw new Error(`Could not generate a unique id for prefix ${prefix}`);
+};
+
+// Store technologies under their canonical names from the registry ("NodeJS" → "Node.js")
+ProblemStatementSchema.pre('validate', async function(next) {
+  if (this.isModified('technologies')) {
+    (this as any).technologies = await normalizeTechnologies((this as any).technologies);
+  }
+  next();
+});
+
+// Abstract and learning outcomes are written in Markdown; the rendered HTML and excerpt are stored with them
+export const renderProblemMarkdown = (problem: any): void => {
+  problem.abstractHtml = renderMarkdown(problem.abstract);
+  problem.abstractExcerpt = markdownExcerpt(problem.abstract);
+  problem.learningOutcomesHtml = (problem.learningOutcomes || []).map(renderInlineMarkdown);
+};
+
+ProblemStatementSchema.pre('validate', function(next) {
+  if (this.isModified('abstract') || this.isModified('learningOutcomes')) {
+    renderProblemMarkdown(this);
+  }
+  if (this.isModified('translations')) {
+    (this as any).translations.forEach(renderProblemMarkdown);
+  }
+  next();
+});
+
+// Keeps the duration text and the week range in step. A new duration text is parsed into the range and
+// rewritten in the standard form ("3 months" → "12 weeks"); a range set on its own produces the text.
+ProblemStatementSchema.pre('validate', function(next) {
+  const problem = this as any;
+  const rangeChanged = this.isModified('durationWeeks') && problem.durationWeeks?.min && problem.durationWeeks?.max;
+
+  if (this.isModified('duration') || !rangeChanged) {
+    const weeks = parseDurationWeeks(problem.duration);
+    const error = getDurationError(weeks);
+
+    // Older problems with text that doesn't parse keep it as written and stay editable until their
+    // duration is touched; the text is reported so it can be fixed by hand
+    if (error) {
+      if (this.isModified('duration')) {
+        this.invalidate('duration', error, problem.duration);
+      } else {
+        console.warn(`⚠️ Duration of ${problem.id || problem._id} left as written: "${problem.duration}" (${error})`);
+      }
+      return next();
+    }
+    problem.durationWeeks = weeks;
+  } else {
+    const error = getDurationError(problem.durationWeeks);
+    if (error || problem.durationWeeks.min > problem.durationWeeks.max) {
+      this.invalidate('durationWeeks', error || 'Minimum weeks cannot be more than maximum weeks', problem.durationWeeks);
+      return next();
+    }
+  }
+
+  problem.duration = formatDuration(problem.durationWeeks);
+  next();
+});
+
 // Pre-save middleware to generate ID if not provided or invalid
 ProblemStatementSchema.pre('save', async function(next) {
   // Check if ID is missing or doesn't match the required format
-  if (!this.id || !/^[A-Z]{2,3}\d{3}$/.test(this.id)) {
-    // Generate ID based on domain
-    const domainPrefix = domainPrefixMap[(this as any).domain] || 'GEN';
-    const count = await ProblemStatement.countDocuments({ domain: (this as any).domain });
-    (this as any).id = `${domainPrefix}${String(count + 1).padStart(3, '0')}`;
+  if (!this.id || !PROBLEM_ID_PATTERN.test(this.id)) {
+    (this as any).id = await generateProblemId((this as any).domain);
   }
   next();
 });
 
+// Archived and trashed problems drop out of curated collections; restoring them doesn't put them back
+ProblemStatementSchema.pre('save', function(next) {
+  this.$locals.leftCatalog = (this.isModified('status') && (this as any).status === 'Archived') ||
+    (this.isModified('deletedAt') && !!(this as any).deletedAt);
+  next();
+});
+
+ProblemStatementSchema.post('save', async function(doc) {
+  if (doc.$locals.leftCatalog) {
+    await removeFromCollections([doc._id], doc.$session());
+  }
+});
+
 export const ProblemStatement = mongoose.model<IProblemStatement>('ProblemStatement', ProblemStatementSchema);
@@ -0,0 +1,68 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IFieldChange {
+  field: string;
+  from: any;
+  to: any;
+  added?: string[];              // For array fields: values that were added
+  removed?: string[];            // For array fields: values that were removed
+}
+
+export interface IProblemRevision extends Document {
+  problem: mongoose.Types.ObjectId;
+  revision: number;              // 1, 2, 3... per problem
+  action: 'baseline' | 'create' | 'update' | 'status' | 'featured' | 'restore' | 'bulk';   // bulk: tag merge, domain rename...
+  editedBy?: mongoose.Types.ObjectId;   // Empty for changes made by the system
+  changes: IFieldChange[];
+  snapshot: { [field: string]: any };   // Tracked fields as they were after this revision
+  restoredFrom?: number;         // Revision number a restore rolled back to
+  createdAt: Date;
+}
+
+const FieldChangeSchema: Schema = new Schema({
+  field: {
+    type: String,
+    required: true
+  },
+  from: Schema.Types.Mixed,
+  to: Schema.Types.Mixed,
+  added: [String],
+  removed: [String]
+}, { _id: false });
+
+const ProblemRevisionSchema: Schema = new Schema({
+  problem: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'ProblemStatement',
+    required: true
+  },
+  revision: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  action: {
+    type: String,
+    enum: ['baseline', 'create', 'update', 'status', 'featured', 'restore', 'bulk'],
+    required: true
+  },
+  editedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  changes: [FieldChangeSchema],
+  snapshot: {
+    type: Schema.Types.Mixed,
+    required: true
+  },
+  restoredFrom: {
+    type: Number
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Index for better query performance
+ProblemRevisionSchema.index({ problem: 1, revision: -1 }, { unique: true });
+
+export const ProblemRevision = mongoose.model<IProblemRevision>('ProblemRevision', ProblemRevisionSchema);
@@ -0,0 +1,73 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IProjectAllocation extends Document {
+  problem: mongoose.Types.ObjectId;     // ProblemStatement being claimed
+  student: mongoose.Types.ObjectId;     // Student who applied (team leader for team allocations)
+  team?: mongoose.Types.ObjectId;       // Set when a Major/Capstone problem is allocated to a team
+  batch: string;                        // "2025-26", seats are counted per batch
+  status: 'Pending' | 'Approved' | 'Rejected' | 'Withdrawn';
+  motivation?: string;                  // Why the student wants this problem
+  remarks?: string;                     // Reviewer comments on approve/reject
+  reviewedBy?: mongoose.Types.ObjectId;
+  reviewedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Statuses that hold (or may soon hold) a seat on a problem
+export const OPEN_ALLOCATION_STATUSES = ['Pending', 'Approved'];
+
+const ProjectAllocationSchema: Schema = new Schema({
+  problem: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'ProblemStatement',
+    required: [true, 'Please specify a problem statement']
+  },
+  student: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  team: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Team'
+  },
+  batch: {
+    type: String,
+    required: [true, 'Please add a batch'],
+    trim: true,
+    maxlength: [20, 'Batch cannot be more than 20 characters']
+  },
+  status: {
+    type: String,
+    enum: ['Pending', 'Approved', 'Rejected', 'Withdrawn'],
+    default: 'Pending'
+  },
+  motivation: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Motivation cannot be more than 1000 characters']
+  },
+  remarks: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Remarks cannot be more than 1000 characters']
+  },
+  reviewedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  reviewedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+// Index for better query performance
+ProjectAllocationSchema.index({ problem: 1, batch: 1, status: 1 });
+ProjectAllocationSchema.index({ student: 1, batch: 1, status: 1 });
+ProjectAllocationSchema.index({ team: 1, batch: 1, status: 1 });
+ProjectAllocationSchema.index({ status: 1, createdAt: -1 });
+
+export const ProjectAllocation = mongoose.model<IProjectAllocation>('ProjectAllocation', ProjectAllocationSchema);
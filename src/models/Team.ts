@@ -0,0 +1,110 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type TeamCategory = 'Major' | 'Capstone';
+
+export interface ITeamInvitation {
+  _id: mongoose.Types.ObjectId;
+  email: string;
+  status: 'Pending' | 'Accepted' | 'Declined' | 'Revoked';
+  invitedBy: mongoose.Types.ObjectId;
+  invitedAt: Date;
+  respondedAt?: Date;
+}
+
+export interface ITeam extends Document {
+  name: string;
+  category: TeamCategory;        // Must match ProblemStatement.category when applying
+  batch: string;                 // "2025-26"
+  leader: mongoose.Types.ObjectId;
+  members: mongoose.Types.ObjectId[];   // Includes the leader
+  invitations: ITeamInvitation[];
+  isLocked: boolean;             // Roster frozen, team can apply for problems
+  lockedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Team size rules per problem category. Minor problems are done individually.
+export const TEAM_SIZE_RULES: { [category: string]: { min: number; max: number } } = {
+  Major: { min: 2, max: 4 },
+  Capstone: { min: 3, max: 5 }
+};
+
+export const TEAM_CATEGORIES = Object.keys(TEAM_SIZE_RULES);
+
+const TeamInvitationSchema: Schema = new Schema({
+  email: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true
+  },
+  status: {
+    type: String,
+    enum: ['Pending', 'Accepted', 'Declined', 'Revoked'],
+    default: 'Pending'
+  },
+  invitedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  invitedAt: {
+    type: Date,
+    default: Date.now
+  },
+  respondedAt: {
+    type: Date
+  }
+});
+
+const TeamSchema: Schema = new Schema({
+  name: {
+    type: String,
+    required: [true, 'Please add a team name'],
+    trim: true,
+    maxlength: [100, 'Team name cannot be more than 100 characters']
+  },
+  category: {
+    type: String,
+    required: [true, 'Please add a category'],
+    enum: TEAM_CATEGORIES
+  },
+  batch: {
+    type: String,
+    required: [true, 'Please add a batch'],
+    trim: true,
+    maxlength: [20, 'Batch cannot be more than 20 characters']
+  },
+  leader: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  members: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }],
+  invitations: [TeamInvitationSchema],
+  isLocked: {
+    type: Boolean,
+    default: false
+  },
+  lockedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+// Keep the roster within the category's size limit
+TeamSchema.path('members').validate(function(this: any, members: mongoose.Types.ObjectId[]) {
+  const rules = TEAM_SIZE_RULES[this.category];
+  return !rules || members.length <= rules.max;
+}, 'Team has reached its maximum size');
+
+// Index for better query performance
+TeamSchema.index({ members: 1, batch: 1 });
+TeamSchema.index({ 'invitations.email': 1, 'invitations.status': 1 });
+
+export const Team = mongoose.model<ITeam>('Team', TeamSchema);
@@ -0,0 +1,93 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { slugify } from '../utils/slug';
+
+export const TECHNOLOGY_CATEGORIES = [
+  'language',
+  'framework',
+  'library',
+  'database',
+  'cloud',
+  'hardware',
+  'tool',
+  'other'
+];
+
+export interface ITechnology extends Document {
+  name: string;                  // Canonical spelling stored on problems: "Node.js"
+  slug: string;
+  aliases: string[];             // Other spellings mapped to the name: "NodeJS", "node"
+  category: 'language' | 'framework' | 'library' | 'database' | 'cloud' | 'hardware' | 'tool' | 'other';
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TechnologySchema: Schema = new Schema({
+  name: {
+    type: String,
+    required: [true, 'Please add a technology name'],
+    unique: true,
+    trim: true,
+    maxlength: [100, 'Technology name cannot be more than 100 characters']
+  },
+  slug: {
+    type: String,
+    unique: true,
+    trim: true,
+    lowercase: true
+  },
+  aliases: [{
+    type: String,
+    trim: true,
+    maxlength: [100, 'Alias cannot be more than 100 characters']
+  }],
+  category: {
+    type: String,
+    enum: TECHNOLOGY_CATEGORIES,
+    default: 'other'
+  }
+}, {
+  timestamps: true
+});
+
+TechnologySchema.pre('validate', function(next) {
+  if (this.isModified('name') || !this.slug) {
+    this.slug = slugify(this.name as string);
+  }
+  next();
+});
+
+// Index for better query performance
+TechnologySchema.index({ category: 1, name: 1 });
+
+export const Technology = mongoose.model<ITechnology>('Technology', TechnologySchema);
+
+// Starter registry covering the technologies the catalog already uses most, created on first start
+export const DEFAULT_TECHNOLOGIES: Array<{ name: string; category: string; aliases?: string[] }> = [
+  { name: 'Python', category: 'language', aliases: ['py', 'python3'] },
+  { name: 'JavaScript', category: 'language', aliases: ['JS', 'ECMAScript'] },
+  { name: 'TypeScript', category: 'language', aliases: ['TS'] },
+  { name: 'Java', category: 'language' },
+  { name: 'C++', category: 'language', aliases: ['cpp'] },
+  { name: 'Solidity', category: 'language' },
+  { name: 'Node.js', category: 'framework', aliases: ['node', 'nodejs'] },
+  { name: 'React', category: 'framework', aliases: ['ReactJS', 'React.js'] },
+  { name: 'React Native', category: 'framework', aliases: ['RN'] },
+  { name: 'Express', category: 'framework', aliases: ['Express.js', 'ExpressJS'] },
+  { name: 'Flutter', category: 'framework' },
+  { name: 'Django', category: 'framework' },
+  { name: 'TensorFlow', category: 'library', aliases: ['TF'] },
+  { name: 'PyTorch', category: 'library', aliases: ['torch'] },
+  { name: 'Web3.js', category: 'library', aliases: ['web3'] },
+  { name: 'MongoDB', category: 'database', aliases: ['mongo'] },
+  { name: 'MySQL', category: 'database' },
+  { name: 'PostgreSQL', category: 'database', aliases: ['postgres', 'psql'] },
+  { name: 'Elasticsearch', category: 'database', aliases: ['elastic', 'ES'] },
+  { name: 'AWS', category: 'cloud', aliases: ['Amazon Web Services'] },
+  { name: 'Docker', category: 'tool' },
+  { name: 'Kubernetes', category: 'tool', aliases: ['k8s'] },
+  { name: 'Kafka', category: 'tool', aliases: ['Apache Kafka'] },
+  { name: 'MQTT', category: 'tool' },
+  { name: 'IPFS', category: 'tool' },
+  { name: 'Arduino', category: 'hardware' },
+  { name: 'Raspberry Pi', category: 'hardware', aliases: ['RPi', 'Raspberry'] }
+];
@@ -12,6 +12,7 @@ export interface IUser extends Document {
   role: 'admin' | 'faculty' | 'student';
   avatar?: string;
   isActive: boolean;
+  isReviewer: boolean;           // Designated reviewer for problem statements
   lastLogin?: Date;
   createdAt: Date;
   updatedAt: Date;
@@ -69,6 +70,10 @@ const UserSchema: Schema = new Schema({
     type: Boolean,
     default: true
   },
+  isReviewer: {
+    type: Boolean,
+    default: false
+  },
   lastLogin: {
     type: Date
   }
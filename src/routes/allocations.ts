@@ -0,0 +1,85 @@
+import express from 'express';
+import { body } from 'express-validator';
+import {
+  applyForProblem,
+  getMyAllocations,
+  getAllocations,
+  getAllocation,
+  approveAllocation,
+  rejectAllocation,
+  withdrawAllocation,
+  getSeatAvailability
+} from '../controllers/allocationController';
+import { getAllocationMilestones, generateAllocationMilestones } from '../controllers/milestoneController';
+import { protect, authorize } from '../middleware/auth';
+
+const router = express.Router();
+
+// @route   GET /api/v1/allocations
+// @desc    Get all allocations
+// @access  Private/Admin/Faculty
+router.get('/', protect, authorize('admin', 'faculty'), getAllocations);
+
+// @route   GET /api/v1/allocations/me
+// @desc    Get current student's allocations
+// @access  Private
+router.get('/me', protect, getMyAllocations);
+
+// @route   GET /api/v1/allocations/availability/:problemId
+// @desc    Get seat availability for a problem in a batch
+// @access  Private
+router.get('/availability/:problemId', protect, getSeatAvailability);
+
+// @route   POST /api/v1/allocations
+// @desc    Apply for a problem statement
+// @access  Private/Student
+router.post('/', protect, authorize('student'), [
+  body('problemId')
+    .trim()
+    .notEmpty()
+    .withMessage('Problem id is required'),
+  body('teamId')
+    .optional()
+    .isMongoId()
+    .withMessage('Team id must be a valid id'),
+  body('batch')
+    .trim()
+    .isLength({ min: 1, max: 20 })
+    .withMessage('Batch is required and must be less than 20 characters'),
+  body('motivation')
+    .optional()
+    .isLength({ max: 1000 })
+    .withMessage('Motivation cannot be more than 1000 characters')
+], applyForProblem);
+
+// @route   GET /api/v1/allocations/:id
+// @desc    Get single allocation
+// @access  Private
+router.get('/:id', protect, getAllocation);
+
+// @route   PUT /api/v1/allocations/:id/approve
+// @desc    Approve allocation
+// @access  Private/Admin/Faculty
+router.put('/:id/approve', protect, authorize('admin', 'faculty'), approveAllocation);
+
+// @route   PUT /api/v1/allocations/:id/reject
+// @desc    Reject allocation
+// @access  Private/Admin/Faculty
+router.put('/:id/reject', protect, authorize('admin', 'faculty'), rejectAllocation);
+
+// @route   PUT /api/v1/allocations/:id/withdraw
+// @desc    Withdraw own or own team's allocation
+// @access  Private/Student
+router.put('/:id/withdraw', protect, authorize('student'), withdrawAllocation);
+
+// @route   GET /api/v1/allocations/:id/milestones
+// @desc    Get milestones of an allocation
+// @access  Private
+router.get('/:id/milestones', protect, getAllocationMilestones);
+
+// @route   POST /api/v1/allocations/:id/milestones/generate
+// @desc    Generate milestones for an approved allocation
+// @access  Private/Admin/Faculty
+router.post('/:id/milestones/generate', protect, authorize('admin', 'faculty'), generateAllocationMilestones);
+
+export default router;
@@ -0,0 +1,71 @@
+import express from 'express';
+import { body } from 'express-validator';
+import {
+  getCollections,
+  getCollection,
+  createCollection,
+  updateCollection,
+  deleteCollection
+} from '../controllers/collectionController';
+import { COLLECTION_VISIBILITIES, MAX_COLLECTION_PROBLEMS } from '../models/Collection';
+import { protect, authorize } from '../middleware/auth';
+
+const router = express.Router();
+
+const collectionValidation = (required: boolean) => {
+  const field = (name: string) => (required ? body(name) : body(name).optional());
+  return [
+    field('title')
+      .trim()
+      .isLength({ min: 5, max: 200 })
+      .withMessage('Title must be between 5 and 200 characters'),
+    body('slug')
+      .optional()
+      .trim()
+      .matches(/^[a-z0-9]+(-[a-z0-9]+)*$/)
+      .withMessage('Slug can only contain lowercase letters, numbers and dashes'),
+    body('description')
+      .optional()
+      .trim()
+      .isLength({ max: 2000 })
+      .withMessage('Description cannot be more than 2000 characters'),
+    body('visibility')
+      .optional()
+      .isIn(COLLECTION_VISIBILITIES)
+      .withMessage(`Visibility must be one of: ${COLLECTION_VISIBILITIES.join(', ')}`),
+    body('problems')
+      .optional()
+      .isArray({ max: MAX_COLLECTION_PROBLEMS })
+      .withMessage(`Problems must be an array of at most ${MAX_COLLECTION_PROBLEMS} ids`),
+    body('problems.*')
+      .isString()
+      .withMessage('Each problem must be given by its id')
+  ];
+};
+
+// @route   GET /api/v1/collections
+// @desc    Get all collections, private ones included
+// @access  Private/Admin
+router.get('/', protect, authorize('admin'), getCollections);
+
+// @route   GET /api/v1/collections/:id
+// @desc    Get single collection
+// @access  Private/Admin
+router.get('/:id', protect, authorize('admin'), getCollection);
+
+// @route   POST /api/v1/collections
+// @desc    Create collection
+// @access  Private/Admin
+router.post('/', protect, authorize('admin'), collectionValidation(true), createCollection);
+
+// @route   PUT /api/v1/collections/:id
+// @desc    Update collection, its problems and their order
+// @access  Private/Admin
+router.put('/:id', protect, authorize('admin'), collectionValidation(false), updateCollection);
+
+// @route   DELETE /api/v1/collections/:id
+// @desc    Delete collection
+// @access  Private/Admin
+router.delete('/:id', protect, authorize('admin'), deleteCollection);
+
+export default router;
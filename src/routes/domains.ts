@@ -0,0 +1,77 @@
+import express from 'express';
+import { body } from 'express-validator';
+import {
+  getDomains,
+  getDomain,
+  createDomain,
+  updateDomain,
+  deleteDomain
+} from '../controllers/domainController';
+import { protect, authorize } from '../middleware/auth';
+
+const router = express.Router();
+
+const domainValidation = (required: boolean) => {
+  const field = (name: string) => (required ? body(name) : body(name).optional());
+  return [
+    field('name')
+      .trim()
+      .isLength({ min: 2, max: 100 })
+      .withMessage('Domain name must be between 2 and 100 characters'),
+    field('prefix')
+      .trim()
+      .toUpperCase()
+      .matches(/^[A-Z]{2,3}$/)
+      .withMessage('Prefix must be 2 or 3 letters, like AIM'),
+    body('slug')
+      .optional()
+      .trim()
+      .matches(/^[a-z0-9]+(-[a-z0-9]+)*$/)
+      .withMessage('Slug can only contain lowercase letters, numbers and dashes'),
+    body('description')
+      .optional()
+      .trim()
+      .isLength({ max: 1000 })
+      .withMessage('Description cannot be more than 1000 characters'),
+    body('icon')
+      .optional()
+      .trim()
+      .isLength({ max: 500 })
+      .withMessage('Icon cannot be more than 500 characters'),
+    body('order')
+      .optional()
+      .isInt()
+      .withMessage('Order must be a whole number'),
+    body('isActive')
+      .optional()
+      .isBoolean()
+      .withMessage('isActive must be true or false')
+  ];
+};
+
+// @route   GET /api/v1/domains
+// @desc    Get all domains, inactive ones included
+// @access  Private/Admin
+router.get('/', protect, authorize('admin'), getDomains);
+
+// @route   GET /api/v1/domains/:id
+// @desc    Get single domain
+// @access  Private/Admin
+router.get('/:id', protect, authorize('admin'), getDomain);
+
+// @route   POST /api/v1/domains
+// @desc    Create domain
+// @access  Private/Admin
+router.post('/', protect, authorize('admin'), domainValidation(true), createDomain);
+
+// @route   PUT /api/v1/domains/:id
+// @desc    Update domain
+// @access  Private/Admin
+router.put('/:id', protect, authorize('admin'), domainValidation(false), updateDomain);
+
+// @route   DELETE /api/v1/domains/:id
+// @desc    Delete an unused domain
+// @access  Private/Admin
+router.delete('/:id', protect, authorize('admin'), deleteDomain);
+
+export default router;
@@ -0,0 +1,22 @@
+import express from 'express';
+import { getImportJobs, getImportJob, cancelImportJob } from '../controllers/importJobController';
+import { protect, authorize } from '../middleware/auth';
+
+const router = express.Router();
+
+// @route   GET /api/v1/import-jobs
+// @desc    Get import jobs
+// @access  Private/Admin/Faculty
+router.get('/', protect, authorize('admin', 'faculty'), getImportJobs);
+
+// @route   GET /api/v1/import-jobs/:id
+// @desc    Get import job progress and report
+// @access  Private/Admin/Faculty
+router.get('/:id', protect, authorize('admin', 'faculty'), getImportJob);
+
+// @route   PUT /api/v1/import-jobs/:id/cancel
+// @desc    Cancel a queued or running import job
+// @access  Private/Admin/Faculty
+router.put('/:id/cancel', protect, authorize('admin', 'faculty'), cancelImportJob);
+
+export default router;
@@ -0,0 +1,93 @@
+import express from 'express';
+import path from 'path';
+import { body } from 'express-validator';
+import multer from 'multer';
+import {
+  getOverdueMilestones,
+  getMilestone,
+  updateMilestone,
+  submitMilestone,
+  downloadSubmission,
+  reviewMilestone
+} from '../controllers/milestoneController';
+import { getAttachmentContentType, getAttachmentMaxSize, ATTACHMENT_TYPES } from '../services/problemAttachments';
+import { protect, authorize } from '../middleware/auth';
+
+// Configure multer for milestone submission uploads, accepting the same file types and sizes as problem attachments
+const upload = multer({
+  storage: multer.diskStorage({
+    destination: path.join(process.env.UPLOAD_PATH || './uploads', 'milestones'),
+    filename: (req, file, cb) => {
+      cb(null, `${Date.now()}-${Math.round(Math.random() * 1e9)}${path.extname(file.originalname)}`);
+    }
+  }),
+  limits: {
+    fileSize: getAttachmentMaxSize()
+  },
+  fileFilter: (req, file, cb) => {
+    if (getAttachmentContentType(file)) {
+      cb(null, true);
+    } else {
+      cb(new Error(`Only these file types can be submitted: ${Object.keys(ATTACHMENT_TYPES).join(', ')}`));
+    }
+  }
+});
+
+// Answers rejected submission uploads (type, size) with a 400 instead of a server error
+const receiveSubmission = (req: express.Request, res: express.Response, next: express.NextFunction): void => {
+  upload.single('file')(req, res, (error: any) => {
+    if (!error) return next();
+    res.status(400).json({
+      success: false,
+      message: error.code === 'LIMIT_FILE_SIZE'
+        ? `Submissions cannot be larger than ${Math.round(getAttachmentMaxSize() / (1024 * 1024))}MB`
+        : error.message
+    });
+  });
+};
+
+const router = express.Router();
+
+// @route   GET /api/v1/milestones/overdue
+// @desc    Get overdue milestones report
+// @access  Private/Admin
+router.get('/overdue', protect, authorize('admin'), getOverdueMilestones);
+
+// @route   GET /api/v1/milestones/:id
+// @desc    Get single milestone
+// @access  Private
+router.get('/:id', protect, getMilestone);
+
+// @route   PUT /api/v1/milestones/:id
+// @desc    Update milestone due date
+// @access  Private/Admin/Faculty
+router.put('/:id', protect, authorize('admin', 'faculty'), [
+  body('dueDate')
+    .isISO8601()
+    .withMessage('Due date must be a valid date')
+], updateMilestone);
+
+// @route   POST /api/v1/milestones/:id/submissions
+// @desc    Submit work for a milestone (file upload or link)
+// @access  Private/Student
+router.post('/:id/submissions', protect, authorize('student'), receiveSubmission, submitMilestone);
+
+// @route   GET /api/v1/milestones/:id/submissions/:submissionId/file
+// @desc    Download a submitted file
+// @access  Private
+router.get('/:id/submissions/:submissionId/file', protect, downloadSubmission);
+
+// @route   PUT /api/v1/milestones/:id/review
+// @desc    Sign off or request changes on a milestone
+// @access  Private/Admin/Faculty
+router.put('/:id/review', protect, authorize('admin', 'faculty'), [
+  body('decision')
+    .isIn(['approve', 'request_changes'])
+    .withMessage('Decision must be approve or request_changes'),
+  body('feedback')
+    .optional()
+    .isLength({ max: 2000 })
+    .withMessage('Feedback cannot be more than 2000 characters')
+], reviewMilestone);
+
+export default router;
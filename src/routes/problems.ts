@@ -16,25 +16,81 @@ import {
   getPopularProblems,
   getProblemStats,
   bulkUploadProblems,
-  downloadTemplate
+  downloadTemplate,
+  getProblemRevisions,
+  restoreProblemRevision,
+  submitProblemForReview,
+  reviewProblem,
+  getReviewQueue,
+  getTrashedProblems,
+  restoreProblem,
+  purgeTrashedProblem,
+  getDuplicateReport,
+  exportProblems,
+  getProblemPdf,
+  getCatalogPdf
 } from '../controllers/problemController';
-import { protect, authorize } from '../middleware/auth';
+import { PROBLEM_STATUSES } from '../models/Problem';
+import { getImportFormat } from '../services/problemImport';
+import { isActiveDomain } from '../services/domains';
+import { parseDurationWeeks, getDurationError, MAX_DURATION_WEEKS } from '../utils/duration';
+import {
+  getAttachments,
+  uploadAttachment,
+  downloadAttachment,
+  deleteAttachment
+} from '../controllers/attachmentController';
+import {
+  getTranslations,
+  saveTranslation,
+  deleteTranslation
+} from '../controllers/translationController';
+import { getAttachmentContentType, getAttachmentMaxSize, ATTACHMENT_TYPES } from '../services/problemAttachments';
+import { protect, authorize, authorizeReviewer } from '../middleware/auth';
 
-// Configure multer for CSV file uploads
+// Configure multer for bulk upload files (CSV, XLSX or JSON)
 const upload = multer({
   storage: multer.memoryStorage(),
   limits: {
     fileSize: 5 * 1024 * 1024, // 5MB limit
   },
   fileFilter: (req, file, cb) => {
-    if (file.mimetype === 'text/csv' || file.originalname.endsWith('.csv')) {
+    if (getImportFormat(file)) {
       cb(null, true);
     } else {
-      cb(new Error('Only CSV files are allowed'));
+      cb(new Error('Only CSV, XLSX or JSON files are allowed'));
     }
   }
 });
 
+// Configure multer for problem attachments, kept in memory until handed to the storage backend
+const attachmentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: getAttachmentMaxSize()
+  },
+  fileFilter: (req, file, cb) => {
+    if (getAttachmentContentType(file)) {
+      cb(null, true);
+    } else {
+      cb(new Error(`Only these file types can be attached: ${Object.keys(ATTACHMENT_TYPES).join(', ')}`));
+    }
+  }
+});
+
+// Answers rejected attachment uploads (type, size) with a 400 instead of a server error
+const receiveAttachment = (req: express.Request, res: express.Response, next: express.NextFunction): void => {
+  attachmentUpload.single('file')(req, res, (error: any) => {
+    if (!error) return next();
+    res.status(400).json({
+      success: false,
+      message: error.code === 'LIMIT_FILE_SIZE'
+        ? `Attachments cannot be larger than ${Math.round(getAttachmentMaxSize() / (1024 * 1024))}MB`
+        : error.message
+    });
+  });
+};
+
 const router = express.Router();
 
 // @route   GET /api/v1/problems
@@ -63,12 +119,37 @@ router.get('/search', searchProblems);
 router.get('/stats', getProblemStats);
 
 // @route   GET /api/v1/problems/template
-// @desc    Download CSV template
+// @desc    Download bulk upload template as CSV, XLSX or JSON
 // @access  Private
 router.get('/template', protect, downloadTemplate);
 
+// @route   GET /api/v1/problems/export
+// @desc    Export problems as CSV, XLSX or JSON in the bulk upload layout
+// @access  Private/Admin/Faculty
+router.get('/export', protect, authorize('admin', 'faculty'), exportProblems);
+
+// @route   GET /api/v1/problems/brochure
+// @desc    Download a catalog PDF for filtered problems
+// @access  Private/Admin/Faculty
+router.get('/brochure', protect, authorize('admin', 'faculty'), getCatalogPdf);
+
+// @route   GET /api/v1/problems/trash
+// @desc    Get trashed problems
+// @access  Private/Admin
+router.get('/trash', protect, authorize('admin'), getTrashedProblems);
+
+// @route   GET /api/v1/problems/duplicates
+// @desc    Get clusters of likely duplicate problems
+// @access  Private/Admin
+router.get('/duplicates', protect, authorize('admin'), getDuplicateReport);
+
+// @route   GET /api/v1/problems/review-queue
+// @desc    Get problems waiting for review
+// @access  Private/Reviewer
+router.get('/review-queue', protect, authorizeReviewer, getReviewQueue);
+
 // @route   POST /api/v1/problems/bulk-upload
-// @desc    Bulk upload problems from CSV
+// @desc    Bulk upload problems from a CSV, XLSX or JSON file
 // @access  Private/Admin
 router.post('/bulk-upload', protect, authorize('admin', 'faculty'), upload.single('file'), bulkUploadProblems);
 
@@ -100,17 +181,10 @@ router.post('/', protect, authorize('admin', 'faculty'), [
     .isLength({ min: 50, max: 5000 })
     .withMessage('Abstract must be between 50 and 5000 characters'),
   body('domain')
-    .isIn([
-      'AI & Machine Learning',
-      'IoT & Embedded Systems',
-      'Cloud Computing',
-      'Web & Mobile Applications',
-      'Cybersecurity & Blockchain',
-      'Data Science & Analytics',
-      'Networking & Communication',
-      'Mechanical / ECE Projects'
-    ])
-    .withMessage('Please select a valid domain'),
+    .custom(async value => {
+      if (!(await isActiveDomain(value))) throw new Error('Please select a valid domain');
+      return true;
+    }),
   body('category')
     .isIn(['Major', 'Minor', 'Capstone'])
     .withMessage('Category must be Major, Minor, or Capstone'),
@@ -118,9 +192,32 @@ router.post('/', protect, authorize('admin', 'faculty'), [
     .isIn(['Beginner', 'Intermediate', 'Advanced'])
     .withMessage('Difficulty must be Beginner, Intermediate, or Advanced'),
   body('duration')
+    .if(body('durationWeeks').not().exists())
     .trim()
     .isLength({ min: 1, max: 50 })
-    .withMessage('Duration is required and must be less than 50 characters'),
+    .withMessage('Duration is required and must be less than 50 characters')
+    .bail()
+    .custom(value => {
+      const error = getDurationError(parseDurationWeeks(value));
+      if (error) throw new Error(error);
+      return true;
+    }),
+  body('durationWeeks.min')
+    .if(body('durationWeeks').exists())
+    .isInt({ min: 1, max: MAX_DURATION_WEEKS })
+    .withMessage(`Minimum weeks must be between 1 and ${MAX_DURATION_WEEKS}`)
+    .toInt(),
+  body('durationWeeks.max')
+    .if(body('durationWeeks').exists())
+    .isInt({ min: 1, max: MAX_DURATION_WEEKS })
+    .withMessage(`Maximum weeks must be between 1 and ${MAX_DURATION_WEEKS}`)
+    .toInt()
+    .custom((value, { req }) => {
+      if (Number(req.body.durationWeeks.min) > value) {
+        throw new Error('Maximum weeks cannot be less than minimum weeks');
+      }
+      return true;
+    }),
   body('deliverables')
     .isArray({ min: 1 })
     .withMessage('At least one deliverable is required'),
@@ -138,7 +235,24 @@ router.post('/', protect, authorize('admin', 'faculty'), [
   body('tags')
     .optional()
     .isArray()
-    .withMessage('Tags must be an array')
+    .withMessage('Tags must be an array'),
+  body('seatCapacity')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Seat capacity must be a positive whole number'),
+  body('publishAt')
+    .optional({ values: 'null' })
+    .isISO8601()
+    .withMessage('Publish date must be a valid date'),
+  body('archiveAt')
+    .optional({ values: 'null' })
+    .isISO8601()
+    .withMessage('Archive date must be a valid date'),
+  body('allowDuplicate')
+    .optional()
+    .isBoolean()
+    .toBoolean()
+    .withMessage('allowDuplicate must be true or false')
 ], createProblem);
 
 // @route   PUT /api/v1/problems/:id
@@ -151,18 +265,120 @@ router.put('/:id', protect, authorize('admin', 'faculty'), updateProblem);
 // @access  Private
 router.put('/:id/status', protect, authorize('admin', 'faculty'), [
   body('status')
-    .isIn(['Active', 'Draft', 'Archived'])
-    .withMessage('Status must be Active, Draft, or Archived')
+    .isIn(PROBLEM_STATUSES)
+    .withMessage(`Status must be one of: ${PROBLEM_STATUSES.join(', ')}`)
 ], updateProblemStatus);
 
+// @route   PUT /api/v1/problems/:id/submit-review
+// @desc    Submit problem for editorial review
+// @access  Private
+router.put('/:id/submit-review', protect, authorize('admin', 'faculty'), submitProblemForReview);
+
+// @route   PUT /api/v1/problems/:id/review
+// @desc    Approve, request changes or comment on a problem in review
+// @access  Private/Reviewer
+router.put('/:id/review', protect, authorizeReviewer, [
+  body('decision')
+    .isIn(['approve', 'request_changes', 'comment'])
+    .withMessage('Decision must be approve, request_changes or comment'),
+  body('comment')
+    .optional()
+    .isLength({ max: 2000 })
+    .withMessage('Comment cannot be more than 2000 characters')
+], reviewProblem);
+
+// @route   GET /api/v1/problems/:id/pdf
+// @desc    Download a PDF brochure for one problem
+// @access  Private/Admin/Faculty
+router.get('/:id/pdf', protect, authorize('admin', 'faculty'), getProblemPdf);
+
+// @route   GET /api/v1/problems/:id/revisions
+// @desc    Get revision history of a problem
+// @access  Private
+router.get('/:id/revisions', protect, authorize('admin', 'faculty'), getProblemRevisions);
+
+// @route   POST /api/v1/problems/:id/revisions/:revisionId/restore
+// @desc    Restore a problem's content to a previous revision
+// @access  Private
+router.post('/:id/revisions/:revisionId/restore', protect, authorize('admin', 'faculty'), restoreProblemRevision);
+
+// @route   GET /api/v1/problems/:id/attachments
+// @desc    Get a problem's attachments
+// @access  Private
+router.get('/:id/attachments', protect, getAttachments);
+
+// @route   POST /api/v1/problems/:id/attachments
+// @desc    Upload an attachment (multipart field "file", optional "description")
+// @access  Private/Admin/Faculty
+router.post('/:id/attachments', protect, authorize('admin', 'faculty'), receiveAttachment, [
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Description cannot be more than 200 characters')
+], uploadAttachment);
+
+// @route   GET /api/v1/problems/:id/attachments/:attachmentId
+// @desc    Download an attachment
+// @access  Private
+router.get('/:id/attachments/:attachmentId', protect, downloadAttachment);
+
+// @route   DELETE /api/v1/problems/:id/attachments/:attachmentId
+// @desc    Delete an attachment
+// @access  Private/Admin/Faculty
+router.delete('/:id/attachments/:attachmentId', protect, authorize('admin', 'faculty'), deleteAttachment);
+
+// @route   GET /api/v1/problems/:id/translations
+// @desc    Get a problem's translations
+// @access  Private/Admin/Faculty
+router.get('/:id/translations', protect, authorize('admin', 'faculty'), getTranslations);
+
+// @route   PUT /api/v1/problems/:id/translations/:locale
+// @desc    Add or replace the translation for a locale (hi, te)
+// @access  Private/Admin/Faculty
+router.put('/:id/translations/:locale', protect, authorize('admin', 'faculty'), [
+  body('title')
+    .optional()
+    .trim()
+    .isLength({ min: 5, max: 200 })
+    .withMessage('Title must be between 5 and 200 characters'),
+  body('abstract')
+    .optional()
+    .isLength({ min: 50, max: 5000 })
+    .withMessage('Abstract must be between 50 and 5000 characters'),
+  body('deliverables')
+    .optional()
+    .isArray()
+    .withMessage('Deliverables must be an array'),
+  body('learningOutcomes')
+    .optional()
+    .isArray()
+    .withMessage('Learning outcomes must be an array')
+], saveTranslation);
+
+// @route   DELETE /api/v1/problems/:id/translations/:locale
+// @desc    Delete a problem's translation
+// @access  Private/Admin/Faculty
+router.delete('/:id/translations/:locale', protect, authorize('admin', 'faculty'), deleteTranslation);
+
 // @route   PUT /api/v1/problems/:id/featured
 // @desc    Toggle featured status
 // @access  Private/Admin
 router.put('/:id/featured', protect, authorize('admin'), toggleFeatured);
 
 // @route   DELETE /api/v1/problems/:id
-// @desc    Delete problem
+// @desc    Move problem to the trash
 // @access  Private/Admin
 router.delete('/:id', protect, authorize('admin'), deleteProblem);
 
+// @route   PUT /api/v1/problems/:id/restore
+// @desc    Restore problem from the trash
+// @access  Private/Admin
+router.put('/:id/restore', protect, authorize('admin'), restoreProblem);
+
+// @route   DELETE /api/v1/problems/:id/permanent
+// @desc    Permanently delete a trashed problem
+// @access  Private/Admin
+router.delete('/:id/permanent', protect, authorize('admin'), purgeTrashedProblem);
+
 export default router;
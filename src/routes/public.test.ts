@@ -0,0 +1,56 @@
+import express from 'express';
+import request from 'supertest';
+import publicRoutes from './public';
+import problemRoutes from './problems';
+import { ProblemStatement } from '../models/Problem';
+import { mockQuery } from '../testing/helpers';
+
+const app = express();
+app.use('/api/v1/public', publicRoutes);
+app.use('/api/v1/problems', problemRoutes);
+
+// The filter of the first call to a mocked model method
+const filterOf = (method: jest.SpyInstance): any => method.mock.calls[0][0];
+
+describe('public problem reads', () => {
+  let find: jest.SpyInstance;
+  let findOne: jest.SpyInstance;
+
+  beforeEach(() => {
+    find = jest.spyOn(ProblemStatement, 'find').mockReturnValue(mockQuery([]));
+    findOne = jest.spyOn(ProblemStatement, 'findOne').mockReturnValue(mockQuery(null));
+    jest.spyOn(ProblemStatement, 'countDocuments').mockReturnValue(mockQuery(0));
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('lists only published problems whatever status is asked for', async () => {
+    await request(app).get('/api/v1/public/problems?status=Draft').expect(200);
+    expect(filterOf(find)).toMatchObject({ status: 'Active', $and: expect.any(Array) });
+  });
+
+  it('lists published problems without a status filter too', async () => {
+    await request(app).get('/api/v1/public/problems').expect(200);
+    expect(filterOf(find)).toMatchObject({ status: 'Active', $and: expect.any(Array) });
+  });
+
+  it('hides unpublished problems when read by custom id', async () => {
+    await request(app).get('/api/v1/public/problems/aim001').expect(404);
+    expect(filterOf(findOne)).toMatchObject({ id: 'AIM001', status: 'Active', $and: expect.any(Array) });
+  });
+
+  it('only suggests similar problems for a published one', async () => {
+    await request(app).get('/api/v1/public/problems/AIM001/similar').expect(404);
+    expect(filterOf(findOne)).toMatchObject({ id: 'AIM001', status: 'Active', $and: expect.any(Array) });
+  });
+
+  it('keeps other statuses listable on the staff routes', async () => {
+    await request(app).get('/api/v1/problems?status=Draft').expect(200);
+    expect(filterOf(find)).toEqual({ status: 'Draft' });
+  });
+
+  it('keeps unpublished problems readable by custom id on the staff routes', async () => {
+    await request(app).get('/api/v1/problems/custom/AIM001').expect(404);
+    expect(filterOf(findOne)).toEqual({ id: 'AIM001' });
+  });
+});
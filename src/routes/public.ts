@@ -6,11 +6,24 @@ import {
   getProblemsByDomain,
   searchProblems,
   getPopularProblems,
-  getPublicProblemStats
+  getPublicProblemStats,
+  getSimilarProblems
 } from '../controllers/problemController';
+import { getPublicDomains, getPublicDomain } from '../controllers/domainController';
+import { getPublicTechnologies } from '../controllers/technologyController';
+import { getTagCloud } from '../controllers/tagController';
+import { getPublicCollections, getPublicCollection } from '../controllers/collectionController';
+import { detectLocale } from '../middleware/locale';
+import { publishedOnly } from '../middleware/visibility';
 
 const router = express.Router();
 
+// Problem text is served in the locale from ?lang or Accept-Language, falling back to English
+router.use(detectLocale);
+
+// Drafts, problems under review and those outside their publish window stay hidden
+router.use(publishedOnly);
+
 // @route   GET /api/v1/public
 // @desc    Public API information
 // @access  Public
@@ -27,20 +40,63 @@ router.get('/', (req, res) => {
       search: '/api/v1/public/problems/search',
       stats: '/api/v1/public/problems/stats',
       domain: '/api/v1/public/problems/domain/:domain',
-      problem: '/api/v1/public/problems/:id'
+      domains: '/api/v1/public/domains',
+      technologies: '/api/v1/public/technologies',
+      tags: '/api/v1/public/tags',
+      collections: '/api/v1/public/collections',
+      problem: '/api/v1/public/problems/:id',
+      similar: '/api/v1/public/problems/:id/similar'
     },
     usage: {
       getAllProblems: 'GET /api/v1/public/problems',
       getFeaturedProblems: 'GET /api/v1/public/problems/featured',
       getPopularProblems: 'GET /api/v1/public/problems/popular',
       searchProblems: 'GET /api/v1/public/problems/search?q=search_term',
+      filterProblems: 'GET /api/v1/public/problems?status=Active&domain=Cloud%20Computing,IoT%20%26%20Embedded%20Systems&technologies=React,Node.js&techMatch=all&sort=most_viewed',
+      filterByDuration: 'GET /api/v1/public/problems?maxWeeks=10',
       getProblemStats: 'GET /api/v1/public/problems/stats',
-      getProblemsByDomain: 'GET /api/v1/public/problems/domain/AI%20%26%20Machine%20Learning',
-      getProblemById: 'GET /api/v1/public/problems/AIM001'
+      getProblemsByDomain: 'GET /api/v1/public/problems/domain/ai-machine-learning',
+      getDomains: 'GET /api/v1/public/domains',
+      getTechnologies: 'GET /api/v1/public/technologies?category=framework',
+      getTagCloud: 'GET /api/v1/public/tags?limit=50',
+      getCollection: 'GET /api/v1/public/collections/top-10-ai-projects-for-cse-final-year',
+      getProblemById: 'GET /api/v1/public/problems/AIM001',
+      getProblemInHindi: 'GET /api/v1/public/problems/AIM001?lang=hi',
+      getSimilarProblems: 'GET /api/v1/public/problems/AIM001/similar?limit=6'
     }
   });
 });
 
+// @route   GET /api/v1/public/domains
+// @desc    Get active domains with problem counts
+// @access  Public
+router.get('/domains', getPublicDomains);
+
+// @route   GET /api/v1/public/domains/:slug
+// @desc    Get a domain by slug
+// @access  Public
+router.get('/domains/:slug', getPublicDomain);
+
+// @route   GET /api/v1/public/technologies
+// @desc    Get technologies with problem counts
+// @access  Public
+router.get('/technologies', getPublicTechnologies);
+
+// @route   GET /api/v1/public/tags
+// @desc    Get the tag cloud
+// @access  Public
+router.get('/tags', getTagCloud);
+
+// @route   GET /api/v1/public/collections
+// @desc    Get public collections
+// @access  Public
+router.get('/collections', getPublicCollections);
+
+// @route   GET /api/v1/public/collections/:slug
+// @desc    Get a collection with its problems
+// @access  Public
+router.get('/collections/:slug', getPublicCollection);
+
 // @route   GET /api/v1/public/problems
 // @desc    Get all active problem statements (for final-frontier-projects)
 // @access  Public
@@ -71,6 +127,11 @@ router.get('/problems/domain/:domain', getProblemsByDomain);
 // @access  Public
 router.get('/problems/stats', getPublicProblemStats);
 
+// @route   GET /api/v1/public/problems/:id/similar
+// @desc    Get problems similar to a given one
+// @access  Public
+router.get('/problems/:id/similar', getSimilarProblems);
+
 // @route   GET /api/v1/public/problems/:id
 // @desc    Get problem by custom ID (AIM001, etc.)
 // @access  Public
@@ -0,0 +1,46 @@
+import express from 'express';
+import { body } from 'express-validator';
+import {
+  getTags,
+  renameTag,
+  mergeTags,
+  deleteTag
+} from '../controllers/tagController';
+import { protect, authorize } from '../middleware/auth';
+
+const router = express.Router();
+
+const tagName = (field: string) =>
+  body(field)
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Tag must be between 1 and 50 characters');
+
+// @route   GET /api/v1/tags
+// @desc    Get all tags with usage counts
+// @access  Private/Admin
+router.get('/', protect, authorize('admin'), getTags);
+
+// @route   POST /api/v1/tags/merge
+// @desc    Merge several tags into one
+// @access  Private/Admin
+router.post('/merge', protect, authorize('admin'), [
+  body('tags')
+    .isArray({ min: 1 })
+    .withMessage('Tags must be a non-empty array'),
+  tagName('tags.*'),
+  tagName('into')
+], mergeTags);
+
+// @route   PUT /api/v1/tags/:tag
+// @desc    Rename a tag on every problem
+// @access  Private/Admin
+router.put('/:tag', protect, authorize('admin'), [tagName('name')], renameTag);
+
+// @route   DELETE /api/v1/tags/:tag
+// @desc    Delete a tag, ?force=true when problems still use it
+// @access  Private/Admin
+router.delete('/:tag', protect, authorize('admin'), deleteTag);
+
+export default router;
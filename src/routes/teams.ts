@@ -0,0 +1,93 @@
+import express from 'express';
+import { body } from 'express-validator';
+import {
+  createTeam,
+  getTeams,
+  getMyTeams,
+  getMyInvitations,
+  getTeam,
+  inviteMember,
+  acceptInvitation,
+  declineInvitation,
+  leaveTeam,
+  lockTeam,
+  unlockTeam
+} from '../controllers/teamController';
+import { TEAM_CATEGORIES } from '../models/Team';
+import { protect, authorize } from '../middleware/auth';
+
+const router = express.Router();
+
+// @route   GET /api/v1/teams
+// @desc    Get all teams
+// @access  Private/Admin/Faculty
+router.get('/', protect, authorize('admin', 'faculty'), getTeams);
+
+// @route   GET /api/v1/teams/me
+// @desc    Get teams of current user
+// @access  Private
+router.get('/me', protect, getMyTeams);
+
+// @route   GET /api/v1/teams/invitations
+// @desc    Get pending invitations for current user
+// @access  Private
+router.get('/invitations', protect, getMyInvitations);
+
+// @route   POST /api/v1/teams
+// @desc    Create team
+// @access  Private/Student
+router.post('/', protect, authorize('student'), [
+  body('name')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Team name must be between 2 and 100 characters'),
+  body('category')
+    .isIn(TEAM_CATEGORIES)
+    .withMessage(`Category must be one of: ${TEAM_CATEGORIES.join(', ')}`),
+  body('batch')
+    .trim()
+    .isLength({ min: 1, max: 20 })
+    .withMessage('Batch is required and must be less than 20 characters')
+], createTeam);
+
+// @route   GET /api/v1/teams/:id
+// @desc    Get single team
+// @access  Private
+router.get('/:id', protect, getTeam);
+
+// @route   POST /api/v1/teams/:id/invite
+// @desc    Invite a student to the team by email
+// @access  Private/Student
+router.post('/:id/invite', protect, authorize('student'), [
+  body('email')
+    .isEmail()
+    .normalizeEmail()
+    .withMessage('Please provide a valid email')
+], inviteMember);
+
+// @route   POST /api/v1/teams/:id/accept
+// @desc    Accept team invitation
+// @access  Private/Student
+router.post('/:id/accept', protect, authorize('student'), acceptInvitation);
+
+// @route   POST /api/v1/teams/:id/decline
+// @desc    Decline team invitation
+// @access  Private/Student
+router.post('/:id/decline', protect, authorize('student'), declineInvitation);
+
+// @route   POST /api/v1/teams/:id/leave
+// @desc    Leave team
+// @access  Private/Student
+router.post('/:id/leave', protect, authorize('student'), leaveTeam);
+
+// @route   PUT /api/v1/teams/:id/lock
+// @desc    Lock team roster
+// @access  Private
+router.put('/:id/lock', protect, lockTeam);
+
+// @route   PUT /api/v1/teams/:id/unlock
+// @desc    Unlock team roster
+// @access  Private/Admin/Faculty
+router.put('/:id/unlock', protect, authorize('admin', 'faculty'), unlockTeam);
+
+export default router;
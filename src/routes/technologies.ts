@@ -0,0 +1,62 @@
+import express from 'express';
+import { body } from 'express-validator';
+import {
+  getTechnologies,
+  createTechnology,
+  updateTechnology,
+  deleteTechnology
+} from '../controllers/technologyController';
+import { TECHNOLOGY_CATEGORIES } from '../models/Technology';
+import { protect, authorize } from '../middleware/auth';
+
+const router = express.Router();
+
+const technologyValidation = (required: boolean) => {
+  const field = (name: string) => (required ? body(name) : body(name).optional());
+  return [
+    field('name')
+      .trim()
+      .isLength({ min: 1, max: 100 })
+      .withMessage('Technology name must be between 1 and 100 characters'),
+    body('slug')
+      .optional()
+      .trim()
+      .matches(/^[a-z0-9]+(-[a-z0-9]+)*$/)
+      .withMessage('Slug can only contain lowercase letters, numbers and dashes'),
+    body('aliases')
+      .optional()
+      .isArray()
+      .withMessage('Aliases must be an array'),
+    body('aliases.*')
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 100 })
+      .withMessage('Each alias must be between 1 and 100 characters'),
+    body('category')
+      .optional()
+      .isIn(TECHNOLOGY_CATEGORIES)
+      .withMessage(`Category must be one of: ${TECHNOLOGY_CATEGORIES.join(', ')}`)
+  ];
+};
+
+// @route   GET /api/v1/technologies
+// @desc    Get the technology registry with problem counts
+// @access  Private/Admin
+router.get('/', protect, authorize('admin'), getTechnologies);
+
+// @route   POST /api/v1/technologies
+// @desc    Create technology
+// @access  Private/Admin
+router.post('/', protect, authorize('admin'), technologyValidation(true), createTechnology);
+
+// @route   PUT /api/v1/technologies/:id
+// @desc    Update technology
+// @access  Private/Admin
+router.put('/:id', protect, authorize('admin'), technologyValidation(false), updateTechnology);
+
+// @route   DELETE /api/v1/technologies/:id
+// @desc    Delete technology
+// @access  Private/Admin
+router.delete('/:id', protect, authorize('admin'), deleteTechnology);
+
+export default router;
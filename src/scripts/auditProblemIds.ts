@@ -0,0 +1,120 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import { connectDB } from '../config/database';
+import { Counter, ensureCounterAtLeast } from '../models/Counter';
+import { getDomainPrefix } from '../services/domains';
+import {
+  ProblemStatement,
+  PROBLEM_ID_PATTERN,
+  getHighestIdNumber,
+  generateProblemId,
+  problemIdCounterKey
+} from '../models/Problem';
+
+// Audits problem statement ids and, with --repair, fixes them:
+//   npm run ids:audit            report only, exits with 1 when something needs fixing
+//   npm run ids:audit -- --repair
+// Problems without an id, with a malformed id or sharing an id with an older problem get a fresh id.
+// Ids whose prefix doesn't match the domain are only reported, since they may already be printed or shared.
+
+dotenv.config();
+
+interface IIdIssue {
+  _id: string;
+  id: string;
+  title: string;
+  domain: string;
+  problem: 'missing' | 'invalid' | 'duplicate' | 'prefix';
+}
+
+const audit = async (): Promise<{ issues: IIdIssue[]; counters: Array<{ prefix: string; seq: number; highest: number }> }> => {
+  const problems = await ProblemStatement.find({})
+    .setOptions({ withDeleted: true })
+    .select('id title domain createdAt')
+    .sort({ createdAt: 1, _id: 1 })
+    .lean();
+
+  const issues: IIdIssue[] = [];
+  const seen = new Set<string>();
+  const prefixes = new Set<string>();
+
+  for (const problem of problems) {
+    const base = { _id: String(problem._id), id: problem.id || '', title: problem.title, domain: problem.domain };
+
+    if (!problem.id) {
+      issues.push({ ...base, problem: 'missing' });
+    } else if (!PROBLEM_ID_PATTERN.test(problem.id)) {
+      issues.push({ ...base, problem: 'invalid' });
+    } else if (seen.has(problem.id)) {
+      // The oldest problem keeps the id
+      issues.push({ ...base, problem: 'duplicate' });
+    } else {
+      seen.add(problem.id);
+      prefixes.add(problem.id.replace(/\d+$/, ''));
+      if (!problem.id.startsWith(await getDomainPrefix(problem.domain))) {
+        issues.push({ ...base, problem: 'prefix' });
+      }
+    }
+  }
+
+  const counters: Array<{ prefix: string; seq: number; highest: number }> = [];
+  for (const prefix of Array.from(prefixes).sort()) {
+    const counter = await Counter.findById(problemIdCounterKey(prefix)).lean();
+    counters.push({ prefix, seq: counter?.seq || 0, highest: await getHighestIdNumber(prefix) });
+  }
+
+  return { issues, counters };
+};
+
+const run = async (): Promise<void> => {
+  const repair = process.argv.includes('--repair');
+
+  await connectDB();
+  if (mongoose.connection.readyState !== 1) {
+    process.exit(1);
+  }
+
+  const { issues, counters } = await audit();
+
+  console.log('🔎 Problem id counters');
+  counters.forEach(({ prefix, seq, highest }) => {
+    const state = seq < highest ? `⚠️ behind, highest id in use is ${highest}` : '✅';
+    console.log(`   ${prefix.padEnd(4)} counter ${seq} ${state}`);
+  });
+
+  const fixable = issues.filter(issue => issue.problem !== 'prefix');
+  const staleCounters = counters.filter(counter => counter.seq < counter.highest);
+
+  console.log(`\n🔎 ${issues.length} id issue(s) found`);
+  issues.forEach(issue => {
+    console.log(`   [${issue.problem}] ${issue.id || 'NO_ID'} ${issue.title} (${issue.domain})`);
+  });
+
+  if (!repair) {
+    if (fixable.length || staleCounters.length) {
+      console.log('\nRun again with --repair to fix the issues above.');
+    }
+    await mongoose.connection.close();
+    process.exit(fixable.length || staleCounters.length ? 1 : 0);
+  }
+
+  // Counters first, so the new ids continue after everything already in use
+  for (const { prefix, highest } of counters) {
+    await ensureCounterAtLeast(problemIdCounterKey(prefix), highest);
+  }
+
+  for (const issue of fixable) {
+    const id = await generateProblemId(issue.domain);
+    await ProblemStatement.updateOne({ _id: issue._id }, { id }).setOptions({ withDeleted: true });
+    console.log(`🔄 ${issue.title}: ${issue.id || 'NO_ID'} → ${id}`);
+  }
+
+  console.log(`\n✅ Repaired ${fixable.length} id(s) and ${staleCounters.length} counter(s)`);
+  await mongoose.connection.close();
+};
+
+run().catch(async error => {
+  console.error('❌ Id audit failed:', error);
+  await mongoose.connection.close();
+  process.exit(1);
+});
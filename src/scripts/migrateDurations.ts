@@ -0,0 +1,60 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import { connectDB } from '../config/database';
+import { ProblemStatement } from '../models/Problem';
+import { parseDurationWeeks, formatDuration, getDurationError } from '../utils/duration';
+
+// Fills in the week range of problems stored before durations were structured:
+//   npm run durations:migrate
+// Each duration text is parsed and rewritten in the standard form ("3 months" → "12 weeks").
+// Texts that can't be parsed are listed and left alone; fix them by hand and run the script again.
+
+dotenv.config();
+
+const run = async (): Promise<void> => {
+  await connectDB();
+  if (mongoose.connection.readyState !== 1) {
+    process.exit(1);
+  }
+
+  const problems = await ProblemStatement.find({ 'durationWeeks.max': { $exists: false } })
+    .setOptions({ withDeleted: true })
+    .select('id title duration')
+    .lean();
+
+  let migrated = 0;
+  const unparsed: Array<{ id: string; title: string; duration: string; error: string }> = [];
+
+  for (const problem of problems) {
+    const weeks = parseDurationWeeks(problem.duration);
+    const error = getDurationError(weeks);
+    if (error || !weeks) {
+      unparsed.push({ id: problem.id, title: problem.title, duration: problem.duration, error: error || '' });
+      continue;
+    }
+
+    await ProblemStatement.updateOne(
+      { _id: problem._id },
+      { durationWeeks: weeks, duration: formatDuration(weeks) }
+    ).setOptions({ withDeleted: true });
+    migrated++;
+  }
+
+  console.log(`✅ Migrated the duration of ${migrated} problem(s)`);
+
+  if (unparsed.length) {
+    console.log(`\n⚠️ ${unparsed.length} duration(s) could not be parsed`);
+    unparsed.forEach(({ id, title, duration, error }) => {
+      console.log(`   ${id || 'NO_ID'} ${title}: "${duration}" (${error})`);
+    });
+  }
+
+  await mongoose.connection.close();
+  process.exit(unparsed.length ? 1 : 0);
+};
+
+run().catch(async error => {
+  console.error('❌ Duration migration failed:', error);
+  await mongoose.connection.close();
+  process.exit(1);
+});
@@ -0,0 +1,29 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import { connectDB } from '../config/database';
+import { seedDefaultTechnologies, renormalizeProblemTechnologies } from '../services/technologies';
+
+// Rewrites the technologies of every problem, trashed ones included, to their canonical names:
+//   npm run technologies:normalize
+// New and edited problems are normalized on save, this catches up the ones stored before the registry.
+
+dotenv.config();
+
+const run = async (): Promise<void> => {
+  await connectDB();
+  if (mongoose.connection.readyState !== 1) {
+    process.exit(1);
+  }
+
+  await seedDefaultTechnologies();
+  const changed = await renormalizeProblemTechnologies();
+
+  console.log(`✅ Normalized technologies on ${changed} problem(s)`);
+  await mongoose.connection.close();
+};
+
+run().catch(async error => {
+  console.error('❌ Technology normalization failed:', error);
+  await mongoose.connection.close();
+  process.exit(1);
+});
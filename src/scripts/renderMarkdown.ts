@@ -0,0 +1,57 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import { connectDB } from '../config/database';
+import { ProblemStatement, renderProblemMarkdown } from '../models/Problem';
+
+// Renders the stored HTML and excerpt for every problem and its translations, trashed ones included:
+//   npm run markdown:render
+// Saved problems are rendered automatically; run this once for problems stored before Markdown support,
+// and again whenever the allowed markup changes.
+
+dotenv.config();
+
+const run = async (): Promise<void> => {
+  await connectDB();
+  if (mongoose.connection.readyState !== 1) {
+    process.exit(1);
+  }
+
+  const cursor = ProblemStatement.find({})
+    .setOptions({ withDeleted: true })
+    .select('abstract learningOutcomes abstractHtml abstractExcerpt learningOutcomesHtml translations')
+    .lean()
+    .cursor();
+
+  let rendered = 0;
+  for await (const problem of cursor) {
+    const update: any = { abstract: problem.abstract, learningOutcomes: problem.learningOutcomes };
+    renderProblemMarkdown(update);
+
+    // Translations are rendered the same way
+    const translations = (problem.translations || []).map(translation => ({ ...translation }));
+    translations.forEach(renderProblemMarkdown);
+
+    const unchanged = update.abstractHtml === problem.abstractHtml &&
+      update.abstractExcerpt === problem.abstractExcerpt &&
+      JSON.stringify(update.learningOutcomesHtml) === JSON.stringify(problem.learningOutcomesHtml || []) &&
+      JSON.stringify(translations) === JSON.stringify(problem.translations || []);
+    if (unchanged) continue;
+
+    await ProblemStatement.updateOne({ _id: problem._id }, {
+      abstractHtml: update.abstractHtml,
+      abstractExcerpt: update.abstractExcerpt,
+      learningOutcomesHtml: update.learningOutcomesHtml,
+      translations
+    }).setOptions({ withDeleted: true });
+    rendered++;
+  }
+
+  console.log(`✅ Rendered Markdown for ${rendered} problem(s)`);
+  await mongoose.connection.close();
+};
+
+run().catch(async error => {
+  console.error('❌ Markdown rendering failed:', error);
+  await mongoose.connection.close();
+  process.exit(1);
+});
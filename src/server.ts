@@ -8,6 +8,10 @@ import dotenv from 'dotenv';
 import { connectDB } from './config/database';
 import { errorHandler } from './middleware/errorHandler';
 import { notFound } from './middleware/notFound';
+import { startProblemScheduler } from './services/problemScheduler';
+import { failInterruptedImportJobs } from './services/importJobs';
+import { seedDefaultDomains } from './services/domains';
+import { seedDefaultTechnologies } from './services/technologies';
 
 // Import routes
 import authRoutes from './routes/auth';
@@ -16,6 +20,14 @@ import problemRoutes from './routes/problems';
 import analyticsRoutes from './routes/analytics';
 import publicRoutes from './routes/public';
 import leadRoutes from './routes/leadRoutes';
+import allocationRoutes from './routes/allocations';
+import teamRoutes from './routes/teams';
+import milestoneRoutes from './routes/milestones';
+import importJobRoutes from './routes/importJobs';
+import domainRoutes from './routes/domains';
+import technologyRoutes from './routes/technologies';
+import tagRoutes from './routes/tags';
+import collectionRoutes from './routes/collections';
 
 // Load environment variables
 dotenv.config();
@@ -23,8 +35,19 @@ dotenv.config();
 const app = express();
 const PORT = process.env.PORT || 5000;
 
-// Connect to MongoDB
-connectDB();
+// Connect to MongoDB, then create the default domains and technologies on a fresh database
+// and clear out import jobs an earlier run left unfinished
+connectDB()
+  .then(seedDefaultDomains)
+  .then(seedDefaultTechnologies)
+  .then(failInterruptedImportJobs)
+  .catch(error => {
+    // Like a failed connection, a failed startup task is logged and the server keeps running
+    console.error('❌ Database startup tasks failed:', error);
+  });
+
+// Publish and archive problems on their scheduled dates
+startProblemScheduler();
 
 // Security middleware
 app.use(helmet({
@@ -160,6 +183,14 @@ app.use('/api/v1/problems', problemRoutes);
 app.use('/api/v1/analytics', analyticsRoutes);
 app.use('/api/v1/public', publicRoutes);
 app.use('/api/v1/leads', leadRoutes);
+app.use('/api/v1/allocations', allocationRoutes);
+app.use('/api/v1/teams', teamRoutes);
+app.use('/api/v1/milestones', milestoneRoutes);
+app.use('/api/v1/import-jobs', importJobRoutes);
+app.use('/api/v1/domains', domainRoutes);
+app.use('/api/v1/technologies', technologyRoutes);
+app.use('/api/v1/tags', tagRoutes);
+app.use('/api/v1/collections', collectionRoutes);
 
 // API documentation endpoint
 app.get('/api/v1', (req: any, res: any) => {
@@ -172,7 +203,15 @@ app.get('/api/v1', (req: any, res: any) => {
       problems: '/api/v1/problems',
       analytics: '/api/v1/analytics',
       public: '/api/v1/public',
-      leads: '/api/v1/leads'
+      leads: '/api/v1/leads',
+      allocations: '/api/v1/allocations',
+      teams: '/api/v1/teams',
+      milestones: '/api/v1/milestones',
+      importJobs: '/api/v1/import-jobs',
+      domains: '/api/v1/domains',
+      technologies: '/api/v1/technologies',
+      tags: '/api/v1/tags',
+      collections: '/api/v1/collections'
     },
     documentation: 'https://github.com/trizen/cms-backend'
   });
@@ -0,0 +1,17 @@
+import mongoose from 'mongoose';
+import { Collection } from '../models/Collection';
+
+// Takes problems that left the catalog (archived, trashed or purged) out of every collection
+export const removeFromCollections = async (
+  problemIds: any[],
+  session?: mongoose.ClientSession | null
+): Promise<number> => {
+  if (problemIds.length === 0) return 0;
+
+  const result = await Collection.updateMany(
+    { problems: { $in: problemIds } },
+    { $pull: { problems: { $in: problemIds } } },
+    { session: session || undefined }
+  );
+  return result.modifiedCount;
+};
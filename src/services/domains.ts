@@ -0,0 +1,89 @@
+import mongoose from 'mongoose';
+import { Domain, DEFAULT_DOMAINS } from '../models/Domain';
+
+export interface IDomainInfo {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  slug: string;
+  prefix: string;
+  description?: string;
+  icon?: string;
+  order: number;
+  isActive: boolean;
+}
+
+// Domains are read on every problem save and validation, so they are cached briefly.
+// Writes through the domain endpoints clear the cache right away; other instances catch up within the TTL.
+const CACHE_TTL_MS = 60 * 1000;
+let cache: { domains: IDomainInfo[]; loadedAt: number } | null = null;
+
+export const clearDomainCache = (): void => {
+  cache = null;
+};
+
+// Every domain, active or not, in display order
+export const getDomains = async (): Promise<IDomainInfo[]> => {
+  if (cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) return cache.domains;
+
+  const domains = await Domain.find().sort({ order: 1, name: 1 }).lean<IDomainInfo[]>();
+  cache = { domains, loadedAt: Date.now() };
+  return domains;
+};
+
+export const getActiveDomainNames = async (): Promise<string[]> => {
+  return (await getDomains()).filter(domain => domain.isActive).map(domain => domain.name);
+};
+
+export const isActiveDomain = async (name: string): Promise<boolean> => {
+  return (await getActiveDomainNames()).includes(name);
+};
+
+export const getDomainPrefix = async (name: string): Promise<string> => {
+  return (await getDomains()).find(domain => domain.name === name)?.prefix || 'GEN';
+};
+
+// Looks a domain up by id, slug or name (dashes accepted for spaces, as older links used them)
+export const findDomain = async (value: string): Promise<IDomainInfo | null> => {
+  const domains = await getDomains();
+  return domains.find(domain =>
+    String(domain._id) === value ||
+    domain.slug === value.toLowerCase() ||
+    domain.name === value ||
+    domain.name === value.replace(/-/g, ' ')
+  ) || null;
+};
+
+// Turns `{ _id: name, count }` buckets into one entry per domain in display order. Active domains
+// without problems show up with a zero count; names no longer in the taxonomy are kept at the end.
+export const withDomainDetails = async (buckets: Array<{ _id: string; count: number }>): Promise<any[]> => {
+  const counts = new Map(buckets.map(bucket => [bucket._id, bucket.count]));
+  const domains = await getDomains();
+
+  const known = domains
+    .filter(domain => domain.isActive || counts.has(domain.name))
+    .map(domain => ({
+      _id: domain.name,
+      count: counts.get(domain.name) || 0,
+      slug: domain.slug,
+      prefix: domain.prefix,
+      icon: domain.icon
+    }));
+  const unknown = buckets.filter(bucket => !domains.some(domain => domain.name === bucket._id));
+
+  return [...known, ...unknown];
+};
+
+// Creates the original eight domains on an empty collection
+export const seedDefaultDomains = async (): Promise<void> => {
+  if (mongoose.connection.readyState !== 1) return;
+
+  try {
+    if (await Domain.exists({})) return;
+
+    await Domain.insertMany(DEFAULT_DOMAINS.map((domain, index) => ({ ...domain, order: index + 1 })));
+    clearDomainCache();
+    console.log(`🗂️ Created ${DEFAULT_DOMAINS.length} default domains`);
+  } catch (error) {
+    console.error('❌ Could not create default domains:', error);
+  }
+};
@@ -0,0 +1,134 @@
+import { ProblemStatement } from '../models/Problem';
+import { tokenize, termFrequencies, cosineSimilarity } from '../utils/textSimilarity';
+
+// Title and abstract similarity (0-1) at which two problems are treated as likely duplicates
+export const getDuplicateThreshold = (): number => parseFloat(process.env.DUPLICATE_SIMILARITY_THRESHOLD || '0.7');
+
+const MAX_CANDIDATES = 50;
+
+interface IComparable {
+  title: string;
+  abstract: string;
+}
+
+interface IPreparedText {
+  title: Map<string, number>;
+  abstract: Map<string, number>;
+  normalizedTitle: string;
+}
+
+export interface IDuplicateMatch {
+  _id: any;
+  id: string;
+  title: string;
+  status: string;
+  score: number;
+}
+
+const prepare = (item: IComparable): IPreparedText => ({
+  title: termFrequencies(tokenize(item.title)),
+  abstract: termFrequencies(tokenize(item.abstract)),
+  normalizedTitle: (item.title || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+});
+
+// Identical titles always count as duplicates, otherwise title and abstract wording weigh equally
+const scorePrepared = (a: IPreparedText, b: IPreparedText): number => {
+  if (a.normalizedTitle && a.normalizedTitle === b.normalizedTitle) return 1;
+  const score = 0.5 * cosineSimilarity(a.title, b.title) + 0.5 * cosineSimilarity(a.abstract, b.abstract);
+  return Math.round(score * 1000) / 1000;
+};
+
+export const duplicateScore = (a: IComparable, b: IComparable): number => scorePrepared(prepare(a), prepare(b));
+
+// Existing problems (any status, trash excluded) that look like duplicates of the given title/abstract
+export const findPotentialDuplicates = async (item: IComparable, excludeId?: any): Promise<IDuplicateMatch[]> => {
+  const terms = tokenize(`${item.title} ${item.title} ${item.abstract}`).slice(0, 40).join(' ');
+  if (!terms) return [];
+
+  const filter: any = { $text: { $search: terms } };
+  if (excludeId) filter._id = { $ne: excludeId };
+
+  const candidates = await ProblemStatement.find(filter, { score: { $meta: 'textScore' } })
+    .select('id title abstract status')
+    .sort({ score: { $meta: 'textScore' } })
+    .limit(MAX_CANDIDATES)
+    .lean();
+
+  const prepared = prepare(item);
+  const threshold = getDuplicateThreshold();
+
+  return candidates
+    .map(candidate => ({
+      _id: candidate._id,
+      id: candidate.id,
+      title: candidate.title,
+      status: candidate.status,
+      score: scorePrepared(prepared, prepare(candidate))
+    }))
+    .filter(match => match.score >= threshold)
+    .sort((a, b) => b.score - a.score);
+};
+
+// Tracks rows of a single upload so duplicates within the same file are caught too
+export const createUploadDuplicateTracker = () => {
+  const rows: Array<{ row: number; title: string; text: IPreparedText }> = [];
+
+  return {
+    check: (item: IComparable): Array<{ row: number; title: string; score: number }> => {
+      const prepared = prepare(item);
+      const threshold = getDuplicateThreshold();
+      return rows
+        .map(entry => ({ row: entry.row, title: entry.title, score: scorePrepared(prepared, entry.text) }))
+        .filter(match => match.score >= threshold);
+    },
+    add: (row: number, item: IComparable): void => {
+      rows.push({ row, title: item.title, text: prepare(item) });
+    }
+  };
+};
+
+// Groups the catalog into clusters of likely duplicates (connected components of similar pairs)
+export const findDuplicateClusters = async (filter: any = {}, threshold: number = getDuplicateThreshold()) => {
+  const problems = await ProblemStatement.find(filter)
+    .select('id title abstract domain status createdAt')
+    .sort({ createdAt: 1 })
+    .lean();
+
+  const prepared = problems.map(problem => prepare(problem));
+  const parent = problems.map((_, index) => index);
+  const find = (index: number): number => (parent[index] === index ? index : (parent[index] = find(parent[index])));
+
+  const pairScores = new Map<number, number>();
+  for (let i = 0; i < problems.length; i++) {
+    for (let j = i + 1; j < problems.length; j++) {
+      const score = scorePrepared(prepared[i], prepared[j]);
+      if (score < threshold) continue;
+
+      parent[find(j)] = find(i);
+      pairScores.set(i, Math.max(pairScores.get(i) || 0, score));
+      pairScores.set(j, Math.max(pairScores.get(j) || 0, score));
+    }
+  }
+
+  const clusters = new Map<number, number[]>();
+  problems.forEach((_, index) => {
+    if (!pairScores.has(index)) return;
+    const root = find(index);
+    clusters.set(root, [...(clusters.get(root) || []), index]);
+  });
+
+  return Array.from(clusters.values())
+    .map(members => ({
+      size: members.length,
+      maxScore: Math.max(...members.map(index => pairScores.get(index) || 0)),
+      problems: members.map(index => ({
+        _id: problems[index]._id,
+        id: problems[index].id,
+        title: problems[index].title,
+        domain: problems[index].domain,
+        status: problems[index].status,
+        createdAt: problems[index].createdAt
+      }))
+    }))
+    .sort((a, b) => b.size - a.size || b.maxScore - a.maxScore);
+};
@@ -0,0 +1,159 @@
+import mongoose from 'mongoose';
+import { ImportJob, IImportJob, ACTIVE_IMPORT_JOB_STATUSES } from '../models/ImportJob';
+import { parseImportFile, importProblems, ImportFormat, IImportOptions, IImportSummary, ImportPhase } from './problemImport';
+
+// Row errors copied onto the job while it runs; the final report keeps all of them
+const MAX_PROGRESS_ERRORS = 100;
+
+// How often progress is written back to the job, and cancel requests picked up
+const PROGRESS_INTERVAL_MS = 1000;
+
+interface IQueuedImport {
+  jobId: string;
+  file: { originalname: string; mimetype: string; buffer: Buffer };
+  user: any;
+}
+
+// Uploaded files wait here until the worker picks them up. Jobs run one at a time in this process.
+const queue: IQueuedImport[] = [];
+let working = false;
+
+const runJob = async ({ jobId, file, user }: IQueuedImport): Promise<void> => {
+  const job = await ImportJob.findOneAndUpdate(
+    { _id: jobId, status: 'Queued' },
+    { status: 'Running', startedAt: new Date() },
+    { new: true }
+  );
+  if (!job) return; // Cancelled before it started
+
+  let cancelRequested = false;
+  let lastFlush = 0;
+
+  // Writes progress at most once per interval and reads back whether a cancel was requested
+  const flush = async (phase: ImportPhase, processed: number, summary: IImportSummary): Promise<void> => {
+    const updated = await ImportJob.findByIdAndUpdate(jobId, {
+      progress: {
+        phase,
+        total: summary.total,
+        processed,
+        imported: summary.imported,
+        updated: summary.updated,
+        unchanged: summary.unchanged,
+        skipped: summary.skipped,
+        failed: summary.failed
+      },
+      rowErrors: summary.errors.slice(0, MAX_PROGRESS_ERRORS)
+    }, { new: true }).select('cancelRequested');
+    cancelRequested = !!updated?.cancelRequested;
+    lastFlush = Date.now();
+  };
+
+  try {
+    const { rows } = await parseImportFile(file);
+
+    const options: IImportOptions = {
+      ...job.toObject().options,
+      user,
+      onProgress: async (phase, processed, summary) => {
+        if (Date.now() - lastFlush >= PROGRESS_INTERVAL_MS) await flush(phase, processed, summary());
+      },
+      shouldCancel: () => cancelRequested
+    };
+
+    const report = await importProblems(rows, options);
+
+    job.status = report.wasCancelled ? 'Cancelled' : 'Completed';
+    job.progress = {
+      phase: 'done',
+      total: report.total,
+      processed: report.total,
+      imported: report.imported,
+      updated: report.updated,
+      unchanged: report.unchanged,
+      skipped: report.skipped,
+      failed: report.failed
+    };
+    job.rowErrors = report.errors.slice(0, MAX_PROGRESS_ERRORS);
+    job.report = { format: job.format, ...report };
+  } catch (error: any) {
+    job.status = 'Failed';
+    job.failureReason = error.message || 'Import failed';
+  }
+
+  job.finishedAt = new Date();
+  await job.save();
+};
+
+const work = async (): Promise<void> => {
+  if (working) return;
+  working = true;
+
+  while (queue.length > 0) {
+    const next = queue.shift()!;
+    try {
+      await runJob(next);
+    } catch (error) {
+      console.error(`❌ Import job ${next.jobId} failed:`, error);
+    }
+  }
+
+  working = false;
+};
+
+// Records the upload as a job and hands the file to the background worker
+export const enqueueImportJob = async (
+  file: { originalname: string; mimetype: string; size: number; buffer: Buffer },
+  format: ImportFormat,
+  options: Pick<IImportOptions, 'mode' | 'dryRun' | 'atomic' | 'duplicates'>,
+  user: any
+): Promise<IImportJob> => {
+  const job = await ImportJob.create({
+    fileName: file.originalname,
+    format,
+    fileSize: file.size,
+    options,
+    createdBy: user?.id
+  });
+
+  queue.push({ jobId: String(job._id), file, user });
+  setImmediate(work);
+
+  return job;
+};
+
+// Queued jobs are cancelled straight away, running ones stop at the next progress check.
+// Returns null when the job had already finished.
+export const requestImportCancellation = async (jobId: string): Promise<IImportJob | null> => {
+  const index = queue.findIndex(item => item.jobId === jobId);
+  if (index !== -1) queue.splice(index, 1);
+
+  const queued = await ImportJob.findOneAndUpdate(
+    { _id: jobId, status: 'Queued' },
+    { status: 'Cancelled', cancelRequested: true, finishedAt: new Date() },
+    { new: true }
+  );
+  if (queued) return queued;
+
+  return ImportJob.findOneAndUpdate(
+    { _id: jobId, status: 'Running' },
+    { cancelRequested: true },
+    { new: true }
+  );
+};
+
+// Files for unfinished jobs only lived in memory, so jobs a previous run left behind can't be resumed
+export const failInterruptedImportJobs = async (): Promise<void> => {
+  if (mongoose.connection.readyState !== 1) return;
+
+  try {
+    const result = await ImportJob.updateMany(
+      { status: { $in: ACTIVE_IMPORT_JOB_STATUSES } },
+      { status: 'Failed', failureReason: 'Interrupted by a server restart, please upload the file again', finishedAt: new Date() }
+    );
+    if (result.modifiedCount) {
+      console.log(`📥 Marked ${result.modifiedCount} interrupted import job(s) as failed`);
+    }
+  } catch (error) {
+    console.error('❌ Could not clean up interrupted import jobs:', error);
+  }
+};
@@ -0,0 +1,126 @@
+import ExcelJS from 'exceljs';
+import { ImportFormat } from './problemImport';
+import { IMPORT_COLUMNS, toImportRow, toSheetColumns, toCsvLine } from '../utils/problemColumns';
+
+// Example problems shown in every template format
+const TEMPLATE_SAMPLES = [
+  {
+    title: 'AI-Powered Personal Finance Manager',
+    abstract: 'Develop an intelligent personal finance management system that uses machine learning algorithms to analyze user spending patterns and provide personalized financial advice. The system will include features like budget tracking, expense categorization, investment recommendations, and financial goal setting.',
+    domain: 'AI & Machine Learning',
+    category: 'Major',
+    difficulty: 'Advanced',
+    duration: '12-16 weeks',
+    technologies: ['Python', 'TensorFlow', 'React', 'Node.js', 'MongoDB'],
+    deliverables: ['Complete source code', 'User interface', 'Documentation', 'Deployment guide'],
+    prerequisites: ['Strong programming skills', 'Basic ML knowledge', 'Web development experience'],
+    learningOutcomes: ['Implement ML algorithms', 'Design responsive web applications', 'Work with financial APIs'],
+    tags: ['Machine Learning', 'Finance', 'Web Development', 'Data Analysis'],
+    status: 'Draft',
+    featured: false
+  },
+  {
+    title: 'IoT Smart Home System',
+    abstract: 'Create a comprehensive IoT-based smart home automation system that allows users to control various home appliances and monitor environmental conditions remotely. The system will include sensors for temperature, humidity, motion detection, and smart switches for controlling lights and fans.',
+    domain: 'IoT & Embedded Systems',
+    category: 'Major',
+    difficulty: 'Intermediate',
+    duration: '10-14 weeks',
+    technologies: ['Arduino', 'Raspberry Pi', 'Python', 'MQTT', 'React Native'],
+    deliverables: ['Hardware prototype', 'Mobile app', 'Documentation', 'Circuit diagrams'],
+    prerequisites: ['Electronics basics', 'Programming skills', 'IoT concepts'],
+    learningOutcomes: ['Work with IoT devices', 'Develop mobile applications', 'Understand sensor integration'],
+    tags: ['IoT', 'Smart Home', 'Automation', 'Mobile Development'],
+    status: 'Draft',
+    featured: false
+  },
+  {
+    title: 'Blockchain-Based Supply Chain Tracking',
+    abstract: 'Implement a blockchain solution for tracking products throughout the supply chain, ensuring transparency and authenticity. The system will allow consumers to verify product origins and track the journey from manufacturer to retailer.',
+    domain: 'Cybersecurity & Blockchain',
+    category: 'Major',
+    difficulty: 'Advanced',
+    duration: '14-18 weeks',
+    technologies: ['Solidity', 'Web3.js', 'React', 'Node.js', 'IPFS'],
+    deliverables: ['Smart contracts', 'Web application', 'Documentation', 'Test cases'],
+    prerequisites: ['Blockchain fundamentals', 'Smart contract development', 'Web3 technologies'],
+    learningOutcomes: ['Develop smart contracts', 'Build decentralized applications', 'Understand supply chain processes'],
+    tags: ['Blockchain', 'Supply Chain', 'Web3', 'Smart Contracts'],
+    status: 'Draft',
+    featured: false
+  },
+  {
+    title: 'Cloud-Based E-Learning Platform',
+    abstract: 'Build a scalable e-learning platform using cloud technologies that supports video streaming, real-time collaboration, and progress tracking. The platform will include features like course creation, student enrollment, assignment submission, and performance analytics.',
+    domain: 'Cloud Computing',
+    category: 'Major',
+    difficulty: 'Intermediate',
+    duration: '12-16 weeks',
+    technologies: ['AWS', 'React', 'Node.js', 'MongoDB', 'Docker'],
+    deliverables: ['Cloud deployment', 'Web application', 'API documentation', 'Database schema'],
+    prerequisites: ['Cloud computing basics', 'Web development', 'Database design'],
+    learningOutcomes: ['Deploy applications to cloud', 'Implement real-time features', 'Design scalable architectures'],
+    tags: ['Cloud Computing', 'E-Learning', 'Real-time Applications', 'Scalability'],
+    status: 'Draft',
+    featured: false
+  },
+  {
+    title: 'Cybersecurity Threat Detection System',
+    abstract: 'Develop an AI-powered cybersecurity system that monitors network traffic and detects potential threats in real-time. The system will use machine learning algorithms to identify suspicious patterns and alert administrators about potential security breaches.',
+    domain: 'Cybersecurity & Blockchain',
+    category: 'Major',
+    difficulty: 'Advanced',
+    duration: '16-20 weeks',
+    technologies: ['Python', 'TensorFlow', 'Kafka', 'Elasticsearch', 'React'],
+    deliverables: ['Threat detection engine', 'Dashboard', 'Documentation', 'Test datasets'],
+    prerequisites: ['Cybersecurity knowledge', 'Machine learning', 'Network protocols'],
+    learningOutcomes: ['Implement ML-based threat detection', 'Build monitoring dashboards', 'Understand network security'],
+    tags: ['Cybersecurity', 'Machine Learning', 'Network Security', 'Real-time Processing'],
+    status: 'Draft',
+    featured: false
+  }
+];
+
+export interface ITemplateFile {
+  contentType: string;
+  fileName: string;
+  body: Buffer | string;
+}
+
+// Builds the bulk upload template. The id column is left empty, fill it in to update existing problems with mode=upsert.
+export const buildImportTemplate = async (format: ImportFormat): Promise<ITemplateFile> => {
+  if (format === 'json') {
+    return {
+      contentType: 'application/json',
+      fileName: 'problem-statements-template.json',
+      body: JSON.stringify(TEMPLATE_SAMPLES, null, 2)
+    };
+  }
+
+  const rows = TEMPLATE_SAMPLES.map(sample => toImportRow(sample));
+
+  if (format === 'xlsx') {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('Problem Statements');
+    sheet.columns = toSheetColumns();
+    sheet.getRow(1).font = { bold: true };
+    rows.forEach(row => sheet.addRow(row));
+
+    return {
+      contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      fileName: 'problem-statements-template.xlsx',
+      body: Buffer.from(await workbook.xlsx.writeBuffer())
+    };
+  }
+
+  const lines = [
+    toCsvLine(IMPORT_COLUMNS),
+    ...rows.map(row => toCsvLine(IMPORT_COLUMNS.map(column => row[column])))
+  ];
+
+  return {
+    contentType: 'text/csv',
+    fileName: 'problem-statements-template.csv',
+    body: lines.join('\n')
+  };
+};
@@ -0,0 +1,48 @@
+import crypto from 'crypto';
+import path from 'path';
+import { getStorage } from './storage';
+
+// Accepted attachment types by extension, with the content type each one is stored and served as
+export const ATTACHMENT_TYPES: { [extension: string]: string } = {
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.csv': 'text/csv',
+  '.json': 'application/json',
+  '.txt': 'text/plain',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  '.zip': 'application/zip'
+};
+
+// Most attachments a single problem can carry
+export const MAX_ATTACHMENTS_PER_PROBLEM = 10;
+
+export const getAttachmentMaxSize = (): number => parseInt(process.env.ATTACHMENT_MAX_SIZE || '20971520'); // 20MB
+
+// Content type for an uploaded file, or null when its type isn't accepted
+export const getAttachmentContentType = (file: { originalname: string }): string | null => {
+  return ATTACHMENT_TYPES[path.extname(file.originalname).toLowerCase()] || null;
+};
+
+export const attachmentChecksum = (body: Buffer): string => crypto.createHash('sha256').update(body).digest('hex');
+
+// Random name under the problem's folder, so file names from users never become paths
+export const attachmentStorageKey = (problemId: any, fileName: string): string => {
+  return `attachments/${problemId}/${crypto.randomUUID()}${path.extname(fileName).toLowerCase()}`;
+};
+
+// Best effort: a file that can't be removed is logged rather than failing the caller
+export const removeStoredAttachments = async (keys: string[]): Promise<void> => {
+  for (const key of keys) {
+    try {
+      await getStorage().remove(key);
+    } catch (error) {
+      console.error(`❌ Could not remove stored attachment ${key}:`, error);
+    }
+  }
+};
@@ -0,0 +1,128 @@
+import { Writable } from 'stream';
+import PDFDocument from 'pdfkit';
+import { markdownToText } from '../utils/markdown';
+
+// Largest number of problems rendered into one catalog PDF
+export const MAX_CATALOG_PROBLEMS = 300;
+
+const BRAND_COLOR = '#1e3a8a';
+const MUTED_COLOR = '#6b7280';
+const TEXT_COLOR = '#111827';
+const MARGIN = 50;
+
+const getBrandName = (): string => process.env.BROCHURE_BRAND_NAME || 'TRIZEN Ventures';
+
+const createDocument = (title: string): PDFKit.PDFDocument => {
+  return new PDFDocument({
+    size: 'A4',
+    margins: { top: 80, bottom: 60, left: MARGIN, right: MARGIN },
+    bufferPages: true,
+    info: { Title: title, Author: getBrandName() }
+  });
+};
+
+// Brand band on top and page numbers at the bottom of every page, drawn once all pages exist
+const decoratePages = (doc: PDFKit.PDFDocument): void => {
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    const { width, height } = doc.page;
+
+    doc.save().rect(0, 0, width, 50).fill(BRAND_COLOR).restore();
+    doc.font('Helvetica-Bold').fontSize(14).fillColor('#ffffff')
+      .text(getBrandName(), MARGIN, 18, { lineBreak: false });
+
+    // Footer sits inside the bottom margin, so lift the margin while writing it to avoid a new page
+    const bottomMargin = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc.font('Helvetica').fontSize(9).fillColor(MUTED_COLOR)
+      .text(`Page ${i - range.start + 1} of ${range.count}`, MARGIN, height - 40, {
+        width: width - MARGIN * 2,
+        align: 'center',
+        lineBreak: false
+      });
+    doc.page.margins.bottom = bottomMargin;
+  }
+};
+
+const heading = (doc: PDFKit.PDFDocument, label: string): void => {
+  doc.moveDown(0.8);
+  doc.font('Helvetica-Bold').fontSize(12).fillColor(BRAND_COLOR).text(label);
+  doc.moveDown(0.3);
+  doc.font('Helvetica').fontSize(10.5).fillColor(TEXT_COLOR);
+};
+
+const bulletList = (doc: PDFKit.PDFDocument, items: string[]): void => {
+  if (items.length === 0) {
+    doc.fillColor(MUTED_COLOR).text('Not specified').fillColor(TEXT_COLOR);
+    return;
+  }
+  doc.list(items, { bulletRadius: 2, textIndent: 12, paragraphGap: 2 });
+};
+
+const renderProblem = (doc: PDFKit.PDFDocument, problem: any): void => {
+  doc.x = MARGIN;
+
+  doc.font('Helvetica-Bold').fontSize(10).fillColor(MUTED_COLOR)
+    .text([problem.id, problem.domain].filter(Boolean).join('  |  '));
+  doc.moveDown(0.2);
+  doc.font('Helvetica-Bold').fontSize(18).fillColor(TEXT_COLOR).text(problem.title);
+  doc.moveDown(0.3);
+  doc.font('Helvetica').fontSize(10).fillColor(MUTED_COLOR)
+    .text([problem.category, problem.difficulty, problem.duration].filter(Boolean).join('  •  '));
+
+  // Abstract and learning outcomes are Markdown, printed as plain text
+  heading(doc, 'Abstract');
+  doc.text(markdownToText(problem.abstract), { align: 'justify' });
+
+  heading(doc, 'Technologies');
+  doc.text((problem.technologies || []).join(', ') || 'Not specified');
+
+  heading(doc, 'Deliverables');
+  bulletList(doc, problem.deliverables || []);
+
+  heading(doc, 'Learning Outcomes');
+  bulletList(doc, (problem.learningOutcomes || []).map(markdownToText));
+};
+
+const finish = (doc: PDFKit.PDFDocument, output: Writable): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    doc.on('error', reject);
+    output.on('error', reject);
+    output.on('finish', () => resolve());
+    doc.pipe(output);
+    decoratePages(doc);
+    doc.end();
+  });
+};
+
+// One problem statement on its own brochure
+export const writeProblemPdf = (problem: any, output: Writable): Promise<void> => {
+  const doc = createDocument(`${problem.id || ''} ${problem.title}`.trim());
+  renderProblem(doc, problem);
+  return finish(doc, output);
+};
+
+// Cover page with a contents list, then one page per problem
+export const writeCatalogPdf = (problems: any[], title: string, output: Writable): Promise<void> => {
+  const doc = createDocument(title);
+
+  doc.moveDown(6);
+  doc.font('Helvetica-Bold').fontSize(28).fillColor(BRAND_COLOR).text(title, { align: 'center' });
+  doc.moveDown(0.5);
+  doc.font('Helvetica').fontSize(12).fillColor(MUTED_COLOR)
+    .text(`${problems.length} problem statements  •  ${new Date().toLocaleDateString('en-IN', { dateStyle: 'long' })}`, { align: 'center' });
+
+  doc.moveDown(3);
+  doc.font('Helvetica').fontSize(10).fillColor(TEXT_COLOR);
+  problems.forEach((problem, index) => {
+    doc.text(`${index + 1}.  ${problem.id ? `${problem.id}  ` : ''}${problem.title}`);
+  });
+
+  problems.forEach(problem => {
+    doc.addPage();
+    renderProblem(doc, problem);
+  });
+
+  return finish(doc, output);
+};
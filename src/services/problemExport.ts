@@ -0,0 +1,69 @@
+import { Response } from 'express';
+import ExcelJS from 'exceljs';
+import { ProblemStatement } from '../models/Problem';
+import { ImportFormat } from './problemImport';
+import { IMPORT_COLUMNS, toImportRow, toImportRecord, toSheetColumns, toCsvLine } from '../utils/problemColumns';
+
+const CONTENT_TYPES: { [format: string]: string } = {
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json'
+};
+
+// Waits for the response to drain, so large exports don't pile up in memory. Fails if the client went away.
+const write = (res: Response, chunk: string): Promise<void> | void => {
+  if (res.destroyed) throw new Error('Export aborted by the client');
+  if (res.write(chunk)) return;
+  return new Promise((resolve, reject) => {
+    const onDrain = () => { res.off('close', onClose); resolve(); };
+    const onClose = () => { res.off('drain', onDrain); reject(new Error('Export aborted by the client')); };
+    res.once('drain', onDrain);
+    res.once('close', onClose);
+  });
+};
+
+// Streams matching problems straight from a cursor in the bulk upload column layout,
+// so an export can be edited and uploaded again with mode=upsert
+export const streamProblemExport = async (format: ImportFormat, filter: any, sort: any, res: Response): Promise<void> => {
+  const cursor = ProblemStatement.find(filter)
+    .select(IMPORT_COLUMNS.join(' '))
+    .sort(sort)
+    .lean()
+    .cursor();
+
+  const date = new Date().toISOString().slice(0, 10);
+  res.setHeader('Content-Type', CONTENT_TYPES[format]);
+  res.setHeader('Content-Disposition', `attachment; filename="problem-statements-${date}.${format}"`);
+
+  if (format === 'xlsx') {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res });
+    const sheet = workbook.addWorksheet('Problem Statements');
+    sheet.columns = toSheetColumns();
+    sheet.getRow(1).font = { bold: true };
+
+    for await (const problem of cursor) {
+      sheet.addRow(toImportRow(problem)).commit();
+    }
+    sheet.commit();
+    await workbook.commit();
+    return;
+  }
+
+  if (format === 'json') {
+    let first = true;
+    await write(res, '[');
+    for await (const problem of cursor) {
+      await write(res, `${first ? '' : ','}\n${JSON.stringify(toImportRecord(problem))}`);
+      first = false;
+    }
+    res.end('\n]\n');
+    return;
+  }
+
+  await write(res, `${toCsvLine(IMPORT_COLUMNS)}\n`);
+  for await (const problem of cursor) {
+    const row = toImportRow(problem);
+    await write(res, `${toCsvLine(IMPORT_COLUMNS.map(column => row[column]))}\n`);
+  }
+  res.end();
+};
@@ -0,0 +1,465 @@
+import mongoose from 'mongoose';
+import path from 'path';
+import csv from 'csv-parser';
+import ExcelJS from 'exceljs';
+import { Readable } from 'stream';
+import { ProblemStatement, IProblemStatement, PROBLEM_STATUSES } from '../models/Problem';
+import { snapshotProblem, diffSnapshots, recordRevision } from '../utils/revisions';
+import { getInitialReview, getTransitionError, applyStatusTransition, resetApprovalOnEdit } from '../utils/problemWorkflow';
+import { findPotentialDuplicates, createUploadDuplicateTracker } from './duplicateDetection';
+import { getActiveDomainNames } from './domains';
+import { normalizeTechnologies } from './technologies';
+import { createError } from '../middleware/errorHandler';
+import { parseDurationWeeks, formatDuration, getDurationError } from '../utils/duration';
+import { splitListField, unprotectFormula } from '../utils/problemColumns';
+
+export const IMPORT_FORMATS = ['csv', 'xlsx', 'json'];
+
+export type ImportFormat = 'csv' | 'xlsx' | 'json';
+export type ImportMode = 'create' | 'upsert';
+export type DuplicateMode = 'skip' | 'flag';
+export type RowAction = 'created' | 'updated' | 'unchanged' | 'skipped' | 'failed' | 'cancelled';
+export type ImportPhase = 'validating' | 'importing';
+
+export interface IImportOptions {
+  mode: ImportMode;
+  dryRun: boolean;
+  atomic: boolean;
+  duplicates: DuplicateMode;
+  user: any;
+  // Called after every row; `summary` is only computed when the caller asks for it
+  onProgress?: (phase: ImportPhase, processed: number, summary: () => IImportSummary) => Promise<void> | void;
+  // Checked before every row; stops the import as soon as it returns true
+  shouldCancel?: () => boolean;
+}
+
+// One record from an uploaded file. `row` is the spreadsheet row (or 1-based array index for JSON) used in reports.
+export interface IParsedRow {
+  row: number;
+  values: any;
+}
+
+export interface IImportError {
+  row: number;
+  field: string;
+  message: string;
+}
+
+export interface IImportRow {
+  row: number;
+  id?: string;
+  title: string;
+  action: RowAction;
+  changes?: string[];
+  errors?: string[];
+  duplicates?: any[];
+}
+
+export interface IImportSummary {
+  total: number;
+  imported: number;
+  updated: number;
+  unchanged: number;
+  skipped: number;
+  failed: number;
+  cancelled: number;
+  errors: IImportError[];
+}
+
+export interface IImportReport extends IImportSummary {
+  format?: ImportFormat;
+  mode: ImportMode;
+  dryRun: boolean;
+  atomic: boolean;
+  committed: boolean;
+  wasCancelled: boolean;
+  rows: IImportRow[];
+  duplicates: Array<{ row: number; title: string; action: 'skipped' | 'flagged'; matches: any[] }>;
+}
+
+interface IPlannedRow extends IImportRow {
+  problem?: IProblemStatement;
+  before?: { [field: string]: any };
+  stage?: 'validation' | 'database';
+}
+
+const VALID_CATEGORIES = ['Major', 'Minor', 'Capstone'];
+const VALID_DIFFICULTIES = ['Beginner', 'Intermediate', 'Advanced'];
+
+// Reads an uploaded CSV into one plain object per row, keyed by the header line
+export const parseCsvRows = async (buffer: Buffer): Promise<IParsedRow[]> => {
+  const rows: IParsedRow[] = [];
+  const stream = Readable.from(buffer.toString());
+
+  await new Promise<void>((resolve, reject) => {
+    stream
+      .pipe(csv())
+      .on('data', (values: any) => {
+        Object.keys(values).forEach(column => {
+          values[column] = unprotectFormula(values[column]);
+        });
+        rows.push({ row: rows.length + 2, values }); // +2 because CSV starts from row 2 (row 1 is header)
+      })
+      .on('end', () => {
+        resolve();
+      })
+      .on('error', (error) => {
+        reject(error);
+      });
+  });
+
+  return rows;
+};
+
+// Reads the first worksheet of a workbook, using its first row as the column names
+export const parseXlsxRows = async (buffer: Buffer): Promise<IParsedRow[]> => {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(buffer as any);
+  } catch (error) {
+    throw createError('Could not read the Excel workbook', 400);
+  }
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const headers: string[] = [];
+  sheet.getRow(1).eachCell((cell, column) => {
+    headers[column] = cell.text.trim();
+  });
+
+  const rows: IParsedRow[] = [];
+  sheet.eachRow((sheetRow, rowNumber) => {
+    if (rowNumber === 1) return;
+
+    const values: any = {};
+    sheetRow.eachCell((cell, column) => {
+      // cell.text flattens rich text, hyperlinks and formula results into what the user sees
+      if (headers[column]) values[headers[column]] = unprotectFormula(cell.text);
+    });
+    if (Object.keys(values).length > 0) rows.push({ row: rowNumber, values });
+  });
+
+  return rows;
+};
+
+// Reads a JSON array of problem objects. Array fields may be arrays or semicolon separated strings.
+export const parseJsonRows = (buffer: Buffer): IParsedRow[] => {
+  let data: any;
+  try {
+    data = JSON.parse(buffer.toString());
+  } catch (error) {
+    throw createError('The uploaded file is not valid JSON', 400);
+  }
+
+  if (!Array.isArray(data)) {
+    throw createError('JSON uploads must contain an array of problem statements', 400);
+  }
+
+  return data.map((values, index) => ({ row: index + 1, values: values || {} }));
+};
+
+export const getImportFormat = (file: { originalname: string; mimetype: string }): ImportFormat | null => {
+  const extension = path.extname(file.originalname).toLowerCase().replace('.', '');
+  if (IMPORT_FORMATS.includes(extension)) return extension as ImportFormat;
+
+  if (file.mimetype === 'text/csv') return 'csv';
+  if (file.mimetype === 'application/json') return 'json';
+  if (file.mimetype === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet') return 'xlsx';
+  return null;
+};
+
+export const parseImportFile = async (file: { originalname: string; mimetype: string; buffer: Buffer }): Promise<{ format: ImportFormat; rows: IParsedRow[] }> => {
+  const format = getImportFormat(file);
+
+  if (format === 'xlsx') return { format, rows: await parseXlsxRows(file.buffer) };
+  if (format === 'json') return { format, rows: parseJsonRows(file.buffer) };
+  if (format === 'csv') return { format, rows: await parseCsvRows(file.buffer) };
+
+  throw createError('Only CSV, XLSX or JSON files are allowed', 400);
+};
+
+const text = (value: unknown): string => (value === undefined || value === null ? '' : String(value).trim());
+
+// Array fields are separated by semicolons, \; for a literal one (JSON uploads can also send real arrays)
+const parseArrayField = (value: unknown): string[] => {
+  const items = Array.isArray(value) ? value.map(text) : splitListField(text(value));
+  return items.map(item => item.trim()).filter(item => item !== '');
+};
+
+// Checks a row's columns and maps it to problem fields. Optional columns missing from the file are left out,
+// so an upsert only touches what the spreadsheet actually carries.
+export const validateRow = (row: any, domains: string[]): { data: any; errors: string[] } => {
+  const errors: string[] = [];
+
+  const required: Array<[string, string]> = [
+    ['title', 'Title'],
+    ['abstract', 'Abstract'],
+    ['domain', 'Domain'],
+    ['category', 'Category'],
+    ['difficulty', 'Difficulty'],
+    ['duration', 'Duration']
+  ];
+  required.forEach(([field, label]) => {
+    if (!text(row[field])) errors.push(`${label} is required`);
+  });
+
+  if (text(row.domain) && !domains.includes(text(row.domain))) {
+    errors.push(`Invalid domain. Must be one of: ${domains.join(', ')}`);
+  }
+  if (text(row.category) && !VALID_CATEGORIES.includes(text(row.category))) {
+    errors.push(`Invalid category. Must be one of: ${VALID_CATEGORIES.join(', ')}`);
+  }
+  if (text(row.difficulty) && !VALID_DIFFICULTIES.includes(text(row.difficulty))) {
+    errors.push(`Invalid difficulty. Must be one of: ${VALID_DIFFICULTIES.join(', ')}`);
+  }
+  // Standard form straight away, so an upsert that only rewords the duration counts as unchanged
+  const durationWeeks = parseDurationWeeks(text(row.duration));
+  const durationError = text(row.duration) ? getDurationError(durationWeeks) : null;
+  if (durationError) errors.push(durationError);
+  if (text(row.status) && !PROBLEM_STATUSES.includes(text(row.status))) {
+    errors.push(`Invalid status. Must be one of: ${PROBLEM_STATUSES.join(', ')}`);
+  }
+
+  const data: any = {
+    title: text(row.title),
+    abstract: text(row.abstract),
+    domain: text(row.domain),
+    category: text(row.category),
+    difficulty: text(row.difficulty),
+    duration: durationWeeks && !durationError ? formatDuration(durationWeeks) : text(row.duration)
+  };
+
+  ['technologies', 'deliverables', 'prerequisites', 'learningOutcomes', 'tags'].forEach(field => {
+    if (row[field] !== undefined) data[field] = parseArrayField(row[field]);
+  });
+  if (text(row.status)) data.status = text(row.status);
+  if (text(row.featured)) data.featured = text(row.featured).toLowerCase() === 'true';
+
+  return { data, errors };
+};
+
+const summarize = (planned: IPlannedRow[], total: number): IImportSummary => {
+  const summary: IImportSummary = { total, imported: 0, updated: 0, unchanged: 0, skipped: 0, failed: 0, cancelled: 0, errors: [] };
+  const counters: { [action: string]: keyof IImportSummary } = {
+    created: 'imported',
+    updated: 'updated',
+    unchanged: 'unchanged',
+    skipped: 'skipped',
+    failed: 'failed',
+    cancelled: 'cancelled'
+  };
+
+  planned.forEach(entry => {
+    (summary[counters[entry.action]] as number)++;
+    (entry.errors || []).forEach(message => {
+      summary.errors.push({ row: entry.row, field: entry.stage || 'database', message });
+    });
+  });
+
+  return summary;
+};
+
+// Validates every row and works out what importing it would do, without writing anything.
+// Returns the rows planned so far and whether the import was cancelled on the way.
+const planRows = async (rows: IParsedRow[], options: IImportOptions): Promise<{ planned: IPlannedRow[]; cancelled: boolean }> => {
+  const duplicateTracker = createUploadDuplicateTracker();
+  const seenIds = new Set<string>();
+  const planned: IPlannedRow[] = [];
+  const domains = await getActiveDomainNames();
+  const progress = () => options.onProgress?.('validating', planned.length, () => summarize(planned, rows.length));
+
+  for (const { row: rowNumber, values } of rows) {
+    if (options.shouldCancel?.()) return { planned, cancelled: true };
+
+    const { data, errors } = validateRow(values, domains);
+    // Canonical names up front, so an upsert that only respells a technology counts as unchanged
+    if (data.technologies) data.technologies = await normalizeTechnologies(data.technologies);
+    const id = text(values.id).toUpperCase() || undefined;
+    const entry: IPlannedRow = { row: rowNumber, title: data.title, action: 'created' };
+    planned.push(entry);
+
+    let problem: IProblemStatement | null = null;
+
+    if (options.mode === 'upsert' && id) {
+      entry.id = id;
+      if (seenIds.has(id)) {
+        errors.push(`Problem ${id} appears more than once in this file`);
+      }
+      seenIds.add(id);
+
+      problem = await ProblemStatement.findOne({ id });
+      if (!problem) {
+        errors.push(`No problem with id ${id} to update`);
+      } else if (problem.createdBy.toString() !== options.user?.id && options.user?.role !== 'admin') {
+        errors.push(`Not authorized to update problem ${id}`);
+        problem = null;
+      }
+    }
+
+    if (errors.length === 0 && problem) {
+      // Apply the row to the loaded document in memory, the write phase only has to save it
+      const { status, ...updates } = data;
+      entry.before = snapshotProblem(problem);
+      problem.set(updates);
+      resetApprovalOnEdit(problem, options.user);
+
+      if (status && status !== problem.status) {
+        const transitionError = getTransitionError(problem, status);
+        if (transitionError) errors.push(transitionError);
+        else applyStatusTransition(problem, status, options.user);
+      }
+
+      entry.problem = problem;
+      entry.changes = diffSnapshots(entry.before, snapshotProblem(problem)).map(change => change.field);
+      entry.action = entry.changes.length > 0 ? 'updated' : 'unchanged';
+    } else if (errors.length === 0) {
+      const status = data.status || 'Draft';
+      const { review, error: statusError } = getInitialReview(status, options.user);
+      if (statusError) errors.push(statusError);
+      else entry.problem = new ProblemStatement({ ...data, status, review, createdBy: options.user?.id });
+    }
+
+    if (errors.length > 0) {
+      entry.action = 'failed';
+      entry.stage = 'validation';
+      entry.errors = errors;
+      delete entry.problem;
+      await progress();
+      continue;
+    }
+
+    // Compare new or reworded problems against the catalog and the rows already taken from this file
+    if (entry.action === 'created' || (problem && (problem.isModified('title') || problem.isModified('abstract')))) {
+      const matches = [
+        ...(await findPotentialDuplicates(data, problem?._id)),
+        ...duplicateTracker.check(data)
+      ];
+      if (matches.length > 0) {
+        entry.duplicates = matches;
+        if (options.duplicates === 'skip') {
+          entry.action = 'skipped';
+          delete entry.problem;
+          await progress();
+          continue;
+        }
+      }
+    }
+
+    duplicateTracker.add(rowNumber, data);
+    await progress();
+  }
+
+  return { planned, cancelled: false };
+};
+
+const IMPORT_CANCELLED = 'Import cancelled';
+
+// Saves the planned rows. Returns false when cancelled part way, after marking the rows left unsaved.
+const writeRows = async (planned: IPlannedRow[], options: IImportOptions, session?: mongoose.ClientSession): Promise<boolean> => {
+  for (let i = 0; i < planned.length; i++) {
+    const entry = planned[i];
+    const problem = entry.problem;
+
+    if (options.shouldCancel?.()) {
+      // A transaction has to be rolled back as a whole
+      if (session) throw new Error(IMPORT_CANCELLED);
+      planned.slice(i).forEach(rest => {
+        if (rest.action === 'created' || rest.action === 'updated') rest.action = 'cancelled';
+      });
+      return false;
+    }
+
+    await options.onProgress?.('importing', i, () => summarize(planned, planned.length));
+    if (!problem || entry.action === 'unchanged') continue;
+
+    try {
+      if (session) problem.$session(session);
+      await problem.save();
+      await recordRevision(problem, entry.action === 'updated' ? entry.before! : null, entry.action === 'updated' ? 'update' : 'create', options.user?.id);
+      entry.id = problem.id;
+    } catch (error: any) {
+      // Inside a transaction the first failure aborts the whole import
+      if (session) throw error;
+      entry.action = 'failed';
+      entry.stage = 'database';
+      entry.errors = [error.message || 'Failed to save problem statement'];
+    }
+  }
+
+  return true;
+};
+
+const buildReport = (
+  planned: IPlannedRow[],
+  total: number,
+  options: IImportOptions,
+  committed: boolean,
+  wasCancelled: boolean = false
+): IImportReport => {
+  const rows: IImportRow[] = planned.map(({ problem, before, stage, ...row }) => row);
+
+  return {
+    mode: options.mode,
+    dryRun: options.dryRun,
+    atomic: options.atomic,
+    committed,
+    wasCancelled,
+    ...summarize(planned, total),
+    rows,
+    duplicates: planned
+      .filter(entry => entry.duplicates)
+      .map(entry => ({
+        row: entry.row,
+        title: entry.title,
+        action: entry.action === 'skipped' ? 'skipped' as const : 'flagged' as const,
+        matches: entry.duplicates!
+      }))
+  };
+};
+
+// Transactions need a replica set or a sharded cluster; a standalone server (the usual development setup) rejects them
+export const supportsTransactions = async (): Promise<boolean> => {
+  const db = mongoose.connection.db;
+  if (!db) return false;
+
+  const hello = await db.admin().command({ hello: 1 });
+  return Boolean(hello.setName) || hello.msg === 'isdbgrid';
+};
+
+// Imports parsed rows. A dry run only reports what would happen; atomic imports write nothing
+// unless every row is valid, and roll back completely if any write fails.
+export const importProblems = async (rows: IParsedRow[], options: IImportOptions): Promise<IImportReport> => {
+  const { planned, cancelled } = await planRows(rows, options);
+
+  if (cancelled) {
+    return buildReport(planned, rows.length, options, false, true);
+  }
+
+  if (options.dryRun) {
+    return buildReport(planned, rows.length, options, false);
+  }
+
+  if (!options.atomic) {
+    const finished = await writeRows(planned, options);
+    return buildReport(planned, rows.length, options, true, !finished);
+  }
+
+  if (planned.some(entry => entry.action === 'failed')) {
+    return buildReport(planned, rows.length, options, false);
+  }
+
+  // connection.transaction() resets the saved documents if the driver has to retry the transaction
+  try {
+    await mongoose.connection.transaction(session => writeRows(planned, options, session));
+    return buildReport(planned, rows.length, options, true);
+  } catch (error: any) {
+    planned.forEach(entry => {
+      if (entry.action === 'created' || entry.action === 'updated') {
+        entry.stage = 'database';
+        entry.errors = [`Rolled back: ${error.message || 'transaction failed'}`];
+      }
+    });
+    return buildReport(planned, rows.length, options, false, error.message === IMPORT_CANCELLED);
+  }
+};
@@ -0,0 +1,81 @@
+import mongoose from 'mongoose';
+import { ProblemStatement, IProblemStatement } from '../models/Problem';
+import { snapshotProblem, recordRevision } from '../utils/revisions';
+import { purgeExpiredTrash } from './problemTrash';
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+// A problem that fails to save is logged and skipped, so one bad document can't hold up the rest
+const transition = async (problem: IProblemStatement, status: IProblemStatement['status']): Promise<boolean> => {
+  try {
+    const before = snapshotProblem(problem);
+    problem.status = status;
+    await problem.save();
+    await recordRevision(problem, before, 'status');
+    return true;
+  } catch (error) {
+    console.error(`❌ Problem scheduler could not move ${problem.id || problem._id} to ${status}:`, error);
+    return false;
+  }
+};
+
+// Publishes approved problems whose publishAt has passed and archives Active ones past archiveAt
+export const runScheduledTransitions = async (now: Date = new Date()): Promise<{ published: number; archived: number }> => {
+  const result = { published: 0, archived: 0 };
+
+  const toPublish = await ProblemStatement.find({
+    status: 'In Review',
+    'review.state': 'Approved',
+    publishAt: { $lte: now },
+    $or: [{ archiveAt: null }, { archiveAt: { $gt: now } }]
+  });
+
+  for (const problem of toPublish) {
+    if (await transition(problem, 'Active')) result.published++;
+  }
+
+  const toArchive = await ProblemStatement.find({
+    status: 'Active',
+    archiveAt: { $lte: now }
+  });
+
+  for (const problem of toArchive) {
+    if (await transition(problem, 'Archived')) result.archived++;
+  }
+
+  return result;
+};
+
+const tick = async (): Promise<void> => {
+  // Skip while the database is unavailable or the previous run is still going
+  if (running || mongoose.connection.readyState !== 1) return;
+
+  running = true;
+  try {
+    const { published, archived } = await runScheduledTransitions();
+    const purged = await purgeExpiredTrash();
+    if (published || archived || purged) {
+      console.log(`⏰ Problem scheduler: ${published} published, ${archived} archived, ${purged} purged from trash`);
+    }
+  } catch (error) {
+    console.error('❌ Problem scheduler failed:', error);
+  } finally {
+    running = false;
+  }
+};
+
+export const startProblemScheduler = (): void => {
+  if (timer || process.env.PROBLEM_SCHEDULER_ENABLED === 'false') return;
+
+  const interval = parseInt(process.env.PROBLEM_SCHEDULER_INTERVAL_MS || '60000'); // 1 minute
+  timer = setInterval(tick, interval);
+  console.log(`⏰ Problem scheduler running every ${interval / 1000}s`);
+};
+
+export const stopProblemScheduler = (): void => {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+};
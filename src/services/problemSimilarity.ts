@@ -0,0 +1,58 @@
+import { ProblemStatement, IProblemStatement } from '../models/Problem';
+import { publishedFilter } from '../utils/problemVisibility';
+import { jaccardSimilarity, textSimilarity, sharedValues } from '../utils/textSimilarity';
+
+// How much each signal contributes to the similarity score (sums to 1)
+const SIMILARITY_WEIGHTS = {
+  technologies: 0.35,
+  tags: 0.2,
+  domain: 0.2,
+  difficulty: 0.1,
+  abstract: 0.15
+};
+
+const MAX_CANDIDATES = 200;
+
+export interface ISimilarProblem {
+  problem: any;
+  score: number;
+  sharedTechnologies: string[];
+  sharedTags: string[];
+}
+
+// Ranks other published problems by overlap with the given one
+export const findSimilarProblems = async (problem: IProblemStatement, limit: number): Promise<ISimilarProblem[]> => {
+  const candidates = await ProblemStatement.find({
+    ...publishedFilter(),
+    _id: { $ne: problem._id },
+    $or: [
+      { technologies: { $in: problem.technologies } },
+      { tags: { $in: problem.tags } },
+      { domain: problem.domain }
+    ]
+  })
+    .select('id title abstract abstractExcerpt domain category difficulty duration technologies tags featured viewCount translations')
+    .sort({ viewCount: -1 })
+    .limit(MAX_CANDIDATES)
+    .lean();
+
+  const ranked = candidates.map(candidate => {
+    const score =
+      SIMILARITY_WEIGHTS.technologies * jaccardSimilarity(problem.technologies, candidate.technologies) +
+      SIMILARITY_WEIGHTS.tags * jaccardSimilarity(problem.tags, candidate.tags) +
+      SIMILARITY_WEIGHTS.domain * (candidate.domain === problem.domain ? 1 : 0) +
+      SIMILARITY_WEIGHTS.difficulty * (candidate.difficulty === problem.difficulty ? 1 : 0) +
+      SIMILARITY_WEIGHTS.abstract * textSimilarity(problem.abstract, candidate.abstract);
+
+    return {
+      problem: candidate,
+      score: Math.round(score * 1000) / 1000,
+      sharedTechnologies: sharedValues(problem.technologies, candidate.technologies),
+      sharedTags: sharedValues(problem.tags, candidate.tags)
+    };
+  });
+
+  return ranked
+    .sort((a, b) => b.score - a.score || (b.problem.viewCount || 0) - (a.problem.viewCount || 0))
+    .slice(0, limit);
+};
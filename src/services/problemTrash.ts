@@ -0,0 +1,41 @@
+import { ProblemStatement } from '../models/Problem';
+import { ProblemRevision } from '../models/ProblemRevision';
+import { Counter } from '../models/Counter';
+import { revisionCounterKey } from '../utils/revisions';
+import { removeStoredAttachments } from './problemAttachments';
+import { removeFromCollections } from './collections';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getTrashRetentionDays = (): number => parseInt(process.env.TRASH_RETENTION_DAYS || '30');
+
+export const getPurgeDate = (deletedAt: Date): Date => new Date(deletedAt.getTime() + getTrashRetentionDays() * DAY_MS);
+
+// Permanently removes a trashed problem together with its revision history, attached files and collection entries
+export const purgeProblem = async (problemId: any): Promise<boolean> => {
+  const problem = await ProblemStatement.findOneAndDelete({ _id: problemId, deletedAt: { $ne: null } })
+    .select('+attachments.storageKey');
+  if (!problem) return false;
+
+  await ProblemRevision.deleteMany({ problem: problem._id });
+  await Counter.deleteOne({ _id: revisionCounterKey(problem._id) });
+  await removeStoredAttachments(problem.attachments.map(attachment => attachment.storageKey));
+  await removeFromCollections([problem._id]);
+  return true;
+};
+
+// Purges everything that has been in the trash longer than the retention period
+export const purgeExpiredTrash = async (now: Date = new Date()): Promise<number> => {
+  const cutoff = new Date(now.getTime() - getTrashRetentionDays() * DAY_MS);
+  const expired = await ProblemStatement.find({ deletedAt: { $ne: null, $lte: cutoff } }).select('_id');
+
+  let purged = 0;
+  for (const problem of expired) {
+    try {
+      if (await purgeProblem(problem._id)) purged++;
+    } catch (error) {
+      console.error(`❌ Could not purge trashed problem ${problem._id}:`, error);
+    }
+  }
+  return purged;
+};
@@ -0,0 +1,101 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+
+// Where uploaded files live. Keys are relative paths like "attachments/<problem>/<file>".
+export interface IStorageAdapter {
+  driver: string;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Readable>;
+  remove(key: string): Promise<void>;
+}
+
+// Files under a directory on this server (UPLOAD_PATH)
+export const createLocalStorage = (root: string): IStorageAdapter => {
+  const base = path.resolve(root);
+
+  // Keys are generated by the server, this only guards against one ever escaping the upload directory
+  const resolve = (key: string): string => {
+    const file = path.resolve(base, key);
+    if (!file.startsWith(base + path.sep)) throw new Error(`Invalid storage key: ${key}`);
+    return file;
+  };
+
+  return {
+    driver: 'local',
+    put: async (key, body) => {
+      const file = resolve(key);
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      await fs.promises.writeFile(file, body);
+    },
+    get: async key => {
+      const file = resolve(key);
+      await fs.promises.access(file);
+      return fs.createReadStream(file);
+    },
+    remove: async key => {
+      await fs.promises.rm(resolve(key), { force: true });
+    }
+  };
+};
+
+// Any S3-compatible object store. Set S3_ENDPOINT (and S3_FORCE_PATH_STYLE=true) to use MinIO or another stand-in.
+export const createS3Storage = (options: {
+  bucket: string;
+  region: string;
+  endpoint?: string;
+  forcePathStyle?: boolean;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}): IStorageAdapter => {
+  const client = new S3Client({
+    region: options.region,
+    endpoint: options.endpoint || undefined,
+    forcePathStyle: options.forcePathStyle,
+    // Without explicit keys the SDK falls back to its usual credential chain (env, profile, instance role)
+    credentials: options.accessKeyId && options.secretAccessKey
+      ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+      : undefined
+  });
+
+  return {
+    driver: 's3',
+    put: async (key, body, contentType) => {
+      await client.send(new PutObjectCommand({ Bucket: options.bucket, Key: key, Body: body, ContentType: contentType }));
+    },
+    get: async key => {
+      const object = await client.send(new GetObjectCommand({ Bucket: options.bucket, Key: key }));
+      return object.Body as Readable;
+    },
+    remove: async key => {
+      await client.send(new DeleteObjectCommand({ Bucket: options.bucket, Key: key }));
+    }
+  };
+};
+
+let storage: IStorageAdapter | null = null;
+
+// Backend chosen by STORAGE_DRIVER (local or s3), created on first use
+export const getStorage = (): IStorageAdapter => {
+  if (storage) return storage;
+
+  const driver = process.env.STORAGE_DRIVER || 'local';
+  if (driver === 's3') {
+    if (!process.env.S3_BUCKET) throw new Error('S3_BUCKET must be set when STORAGE_DRIVER is s3');
+    storage = createS3Storage({
+      bucket: process.env.S3_BUCKET,
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY
+    });
+  } else if (driver === 'local') {
+    storage = createLocalStorage(process.env.UPLOAD_PATH || './uploads');
+  } else {
+    throw new Error(`Unknown STORAGE_DRIVER: ${driver}`);
+  }
+
+  return storage;
+};
@@ -0,0 +1,80 @@
+import mongoose from 'mongoose';
+import { ProblemStatement } from '../models/Problem';
+import { ProblemRevision } from '../models/ProblemRevision';
+import { mergeTags, removeTag, findSimilarTags } from './tags';
+import { mockQuery } from '../testing/helpers';
+
+jest.mock('../models/Counter', () => ({
+  ...jest.requireActual('../models/Counter'),
+  nextSequence: jest.fn().mockResolvedValue(2)
+}));
+
+const ADMIN_ID = '64b000000000000000000001';
+
+const storedProblem = (tags: string[]) => ProblemStatement.hydrate({ _id: new mongoose.Types.ObjectId(), title: 'Problem', tags });
+
+describe('tag edits across problems', () => {
+  let updateOne: jest.SpyInstance;
+  let createRevision: jest.SpyInstance;
+
+  const loadProblems = (problems: any[]) => {
+    jest.spyOn(ProblemStatement, 'find').mockReturnValue(mockQuery(problems));
+  };
+
+  beforeEach(() => {
+    updateOne = jest.spyOn(ProblemStatement, 'updateOne').mockReturnValue(mockQuery({}));
+    jest.spyOn(ProblemRevision, 'exists').mockReturnValue(mockQuery({ _id: 'r1' }));
+    createRevision = jest.spyOn(ProblemRevision, 'create').mockResolvedValue([{}] as any);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('merges tags in place and keeps a single copy of the target', async () => {
+    const problems = [storedProblem(['ml', 'iot', 'machine-learning']), storedProblem(['Machine Learning', 'ml'])];
+    loadProblems(problems);
+
+    const changed = await mergeTags(['ml', 'machine-learning'], 'Machine Learning', ADMIN_ID);
+
+    expect(changed).toBe(2);
+    expect(updateOne).toHaveBeenCalledWith({ _id: problems[0]._id }, { $set: { tags: ['Machine Learning', 'iot'] } });
+    expect(updateOne).toHaveBeenCalledWith({ _id: problems[1]._id }, { $set: { tags: ['Machine Learning'] } });
+  });
+
+  it('records a bulk revision for every problem it changes', async () => {
+    loadProblems([storedProblem(['ml'])]);
+
+    await mergeTags(['ml'], 'Machine Learning', ADMIN_ID);
+
+    const [[revision]]: any = createRevision.mock.calls[0];
+    expect(revision).toMatchObject({ action: 'bulk', editedBy: ADMIN_ID, revision: 2 });
+    expect(revision.changes).toEqual([
+      expect.objectContaining({ field: 'tags', added: ['Machine Learning'], removed: ['ml'] })
+    ]);
+  });
+
+  it('skips merging a tag into itself', async () => {
+    const find = jest.spyOn(ProblemStatement, 'find');
+    expect(await mergeTags(['iot'], 'iot')).toBe(0);
+    expect(find).not.toHaveBeenCalled();
+  });
+
+  it('removes a tag and records the change', async () => {
+    const problem = storedProblem(['iot', 'legacy']);
+    loadProblems([problem]);
+
+    expect(await removeTag('legacy', ADMIN_ID)).toBe(1);
+    expect(updateOne).toHaveBeenCalledWith({ _id: problem._id }, { $set: { tags: ['iot'] } });
+    expect(createRevision).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('findSimilarTags', () => {
+  it('groups spellings that only differ in case, spaces or dashes', () => {
+    const groups = findSimilarTags([
+      { tag: 'Machine Learning', count: 4 },
+      { tag: 'machine-learning', count: 1 },
+      { tag: 'iot', count: 2 }
+    ]);
+    expect(groups).toEqual([[{ tag: 'Machine Learning', count: 4 }, { tag: 'machine-learning', count: 1 }]]);
+  });
+});
@@ -0,0 +1,52 @@
+import { ProblemStatement } from '../models/Problem';
+import { reviseProblems } from '../utils/revisions';
+
+export interface ITagCount {
+  tag: string;
+  count: number;
+}
+
+// "Machine Learning", "machine-learning" and "machinelearning " compare as the same tag
+export const tagKey = (tag: string): string => (tag || '').toLowerCase().replace(/[\s_-]+/g, '');
+
+// Usage count per tag, most used first. Trashed problems are left out by the aggregate hook.
+export const countTags = async (match: any = {}, limit?: number): Promise<ITagCount[]> => {
+  const pipeline: any[] = [
+    { $match: match },
+    { $unwind: '$tags' },
+    { $group: { _id: '$tags', count: { $sum: 1 } } },
+    { $sort: { count: -1, _id: 1 } }
+  ];
+  if (limit) pipeline.push({ $limit: limit });
+
+  const buckets = await ProblemStatement.aggregate(pipeline);
+  return buckets.map(bucket => ({ tag: bucket._id, count: bucket.count }));
+};
+
+// Tags that only differ in case, spacing or dashes, as candidates for a merge
+export const findSimilarTags = (tags: ITagCount[]): ITagCount[][] => {
+  const groups = new Map<string, ITagCount[]>();
+  tags.forEach(tag => {
+    const key = tagKey(tag.tag);
+    groups.set(key, [...(groups.get(key) || []), tag]);
+  });
+  return Array.from(groups.values()).filter(group => group.length > 1);
+};
+
+// Replaces each of `sources` with `target` on every problem, trashed ones included, keeping the tag's position.
+// Problems that already carry the target keep a single copy. Returns the number of problems changed.
+export const mergeTags = async (sources: string[], target: string, editedBy?: string): Promise<number> => {
+  const from = sources.filter(tag => tag !== target);
+  if (from.length === 0) return 0;
+
+  return reviseProblems({ tags: { $in: from } }, ['tags'], problem => {
+    problem.tags = Array.from(new Set(problem.tags.map(tag => (from.includes(tag) ? target : tag))));
+  }, editedBy);
+};
+
+// Takes the tag off every problem, trashed ones included. Returns the number of problems changed.
+export const removeTag = async (tag: string, editedBy?: string): Promise<number> => {
+  return reviseProblems({ tags: tag }, ['tags'], problem => {
+    problem.tags = problem.tags.filter(value => value !== tag);
+  }, editedBy);
+};
@@ -0,0 +1,85 @@
+import mongoose from 'mongoose';
+import { Technology, DEFAULT_TECHNOLOGIES } from '../models/Technology';
+import { ProblemStatement } from '../models/Problem';
+import { reviseProblems } from '../utils/revisions';
+
+// "Node.js", "NodeJS" and "node js" all compare as "nodejs"
+export const technologyKey = (value: string): string => (value || '').toLowerCase().replace(/[\s._-]+/g, '');
+
+// Lookup from every name and alias key to the canonical name, cached like the domain list
+const CACHE_TTL_MS = 60 * 1000;
+let cache: { canonical: Map<string, string>; loadedAt: number } | null = null;
+
+export const clearTechnologyCache = (): void => {
+  cache = null;
+};
+
+const getCanonicalNames = async (): Promise<Map<string, string>> => {
+  if (cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) return cache.canonical;
+
+  const technologies = await Technology.find().select('name aliases').lean();
+  const canonical = new Map<string, string>();
+  technologies.forEach(technology => {
+    [technology.name, ...(technology.aliases || [])].forEach(value => {
+      canonical.set(technologyKey(value), technology.name);
+    });
+  });
+
+  cache = { canonical, loadedAt: Date.now() };
+  return canonical;
+};
+
+// Maps each value to its canonical name and drops repeats. Unknown technologies are kept as typed.
+export const normalizeTechnologies = async (values: string[]): Promise<string[]> => {
+  const canonical = await getCanonicalNames();
+  const seen = new Set<string>();
+  const normalized: string[] = [];
+
+  values.forEach(value => {
+    const trimmed = (value || '').trim();
+    if (!trimmed) return;
+
+    const name = canonical.get(technologyKey(trimmed)) || trimmed;
+    const key = technologyKey(name);
+    if (seen.has(key)) return;
+
+    seen.add(key);
+    normalized.push(name);
+  });
+
+  return normalized;
+};
+
+// Rewrites stored technologies to their canonical names. Limited to problems using one of `values`
+// when given (after a technology or alias was added), otherwise every problem. Returns the number changed.
+export const renormalizeProblemTechnologies = async (values?: string[], editedBy?: string): Promise<number> => {
+  clearTechnologyCache();
+
+  let filter: any = {};
+  if (values) {
+    const keys = new Set(values.map(technologyKey));
+    const stored: string[] = await ProblemStatement.distinct('technologies').setOptions({ withDeleted: true });
+    const variants = stored.filter(value => keys.has(technologyKey(value)));
+    if (variants.length === 0) return 0;
+    filter = { technologies: { $in: variants } };
+  }
+
+  return reviseProblems(filter, ['technologies'], async problem => {
+    problem.technologies = await normalizeTechnologies(problem.technologies);
+  }, editedBy);
+};
+
+// Creates the starter registry on an empty collection
+export const seedDefaultTechnologies = async (): Promise<void> => {
+  if (mongoose.connection.readyState !== 1) return;
+
+  try {
+    if (await Technology.exists({})) return;
+
+    await Technology.create(DEFAULT_TECHNOLOGIES);
+    clearTechnologyCache();
+    console.log(`🧰 Created ${DEFAULT_TECHNOLOGIES.length} default technologies`);
+  } catch (error) {
+    console.error('❌ Could not create default technologies:', error);
+  }
+};
@@ -0,0 +1,19 @@
+// Stand-in for a mongoose query: chained calls return the query itself and awaiting it resolves to `result`
+export const mockQuery = (result: any): any => {
+  const query: any = {};
+  ['populate', 'select', 'sort', 'skip', 'limit', 'lean', 'setOptions', 'session'].forEach(method => {
+    query[method] = jest.fn(() => query);
+  });
+  query.exec = jest.fn(() => Promise.resolve(result));
+  query.then = (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject);
+  return query;
+};
+
+// Express response that records the status and body a controller sends
+export const mockResponse = (locals: { [key: string]: any } = {}): any => {
+  const res: any = { locals };
+  res.status = jest.fn(() => res);
+  res.json = jest.fn(() => res);
+  res.setHeader = jest.fn(() => res);
+  return res;
+};
@@ -0,0 +1,6 @@
+import mongoose from 'mongoose';
+
+// Tests never connect to MongoDB, so a query that isn't mocked fails right away instead of waiting for a connection
+mongoose.set('bufferCommands', false);
+
+process.env.PROBLEM_SCHEDULER_ENABLED = 'false';
@@ -0,0 +1,55 @@
+import { parseDurationWeeks, formatDuration, getDurationError, MAX_DURATION_WEEKS } from './duration';
+
+describe('parseDurationWeeks', () => {
+  it.each([
+    ['8-10 weeks', { min: 8, max: 10 }],
+    ['8 to 10 wks', { min: 8, max: 10 }],
+    ['10–8 weeks', { min: 8, max: 10 }],
+    ['12 weeks', { min: 12, max: 12 }],
+    ['1 week', { min: 1, max: 1 }],
+    ['12', { min: 12, max: 12 }],
+    ['3 months', { min: 12, max: 12 }],
+    ['2-3 mo.', { min: 8, max: 12 }],
+    ['1 year', { min: 52, max: 52 }],
+    ['14 days', { min: 2, max: 2 }],
+    ['30 days', { min: 5, max: 5 }],
+    ['  6 Weeks ', { min: 6, max: 6 }]
+  ])('reads "%s"', (text, weeks) => {
+    expect(parseDurationWeeks(text)).toEqual(weeks);
+  });
+
+  it.each([
+    'Semester 2 (16 weeks)',
+    '2 hours/day for 8 weeks',
+    'about 8 weeks',
+    '1.5 months',
+    '8 fortnights',
+    'flexible',
+    ''
+  ])('refuses to guess "%s"', text => {
+    expect(parseDurationWeeks(text)).toBeNull();
+  });
+});
+
+describe('getDurationError', () => {
+  it('accepts ranges within the catalog limits', () => {
+    expect(getDurationError({ min: 1, max: MAX_DURATION_WEEKS })).toBeNull();
+  });
+
+  it('reports texts that could not be parsed', () => {
+    expect(getDurationError(parseDurationWeeks('Semester 2 (16 weeks)'))).toMatch(/Duration must be/);
+  });
+
+  it('reports ranges outside the catalog limits', () => {
+    expect(getDurationError({ min: 0, max: 0 })).toMatch(/at least 1 week/);
+    expect(getDurationError(parseDurationWeeks('3 years'))).toMatch(/more than 104 weeks/);
+  });
+});
+
+describe('formatDuration', () => {
+  it('writes a range or a single number of weeks', () => {
+    expect(formatDuration({ min: 8, max: 10 })).toBe('8-10 weeks');
+    expect(formatDuration({ min: 12, max: 12 })).toBe('12 weeks');
+    expect(formatDuration({ min: 1, max: 1 })).toBe('1 week');
+  });
+});
@@ -0,0 +1,42 @@
+// Weeks per unit of a duration text; a bare number is read as weeks
+const UNIT_WEEKS: Array<{ pattern: RegExp; weeks: number }> = [
+  { pattern: /^(d|days?)$/, weeks: 1 / 7 },
+  { pattern: /^(w|wks?|weeks?)$/, weeks: 1 },
+  { pattern: /^(mos?|months?)$/, weeks: 4 },
+  { pattern: /^(y|yrs?|years?)$/, weeks: 52 }
+];
+
+// Parses free-text durations like "8-10 weeks", "12 weeks", "3 months" or "30 days" into a week range.
+// The whole text has to be a duration; anything else ("Semester 2 (16 weeks)", "2 hours/day for 8 weeks")
+// returns null rather than a guess. Days are rounded up to whole weeks.
+export const parseDurationWeeks = (duration: string): { min: number; max: number } | null => {
+  if (!duration) return null;
+
+  const match = duration.trim().toLowerCase().match(/^(\d+)\s*(?:(?:-|–|to)\s*(\d+))?\s*([a-z]+)?\.?$/);
+  if (!match) return null;
+
+  const unit = match[3] ? UNIT_WEEKS.find(({ pattern }) => pattern.test(match[3])) : UNIT_WEEKS[1];
+  if (!unit) return null;
+
+  const min = Math.ceil(Number(match[1]) * unit.weeks);
+  const max = Math.ceil(Number(match[2] || match[1]) * unit.weeks);
+
+  return { min: Math.min(min, max), max: Math.max(min, max) };
+};
+
+// Longest project the catalog accepts, in weeks
+export const MAX_DURATION_WEEKS = 104;
+
+// Display string for a week range: "8-10 weeks", or "12 weeks" when both ends match
+export const formatDuration = ({ min, max }: { min: number; max: number }): string => {
+  const weeks = min === max ? `${min}` : `${min}-${max}`;
+  return `${weeks} ${max === 1 ? 'week' : 'weeks'}`;
+};
+
+// Returns why a duration can't be stored, or null when it parses into a usable range
+export const getDurationError = (weeks: { min: number; max: number } | null): string | null => {
+  if (!weeks) return 'Duration must be a number of days, weeks, months or years, like "8-10 weeks"';
+  if (weeks.min < 1) return 'Duration must be at least 1 week';
+  if (weeks.max > MAX_DURATION_WEEKS) return `Duration cannot be more than ${MAX_DURATION_WEEKS} weeks`;
+  return null;
+};
@@ -0,0 +1,44 @@
+// Problems are written in English; these locales can carry translations
+export const DEFAULT_LOCALE = 'en';
+export const TRANSLATION_LOCALES = ['hi', 'te'];
+export const SUPPORTED_LOCALES = [DEFAULT_LOCALE, ...TRANSLATION_LOCALES];
+
+// Fields a translation can replace. Missing ones fall back to the English text.
+export const TRANSLATED_FIELDS = [
+  'title',
+  'abstract',
+  'abstractHtml',
+  'abstractExcerpt',
+  'deliverables',
+  'learningOutcomes',
+  'learningOutcomesHtml'
+];
+
+// Problem (document or plain object) in the requested locale. Without a locale the problem is returned as is,
+// so private endpoints keep showing the English text together with its translations.
+export const localizeProblem = (problem: any, locale?: string): any => {
+  if (!problem || !locale) return problem;
+
+  const data = typeof problem.toObject === 'function' ? problem.toObject() : { ...problem };
+  const { translations = [], ...rest } = data;
+  const translation = locale === DEFAULT_LOCALE ? null : translations.find((item: any) => item.locale === locale);
+
+  const localized: any = {
+    ...rest,
+    locale: translation ? locale : DEFAULT_LOCALE,
+    availableLocales: [DEFAULT_LOCALE, ...translations.map((item: any) => item.locale)]
+  };
+
+  if (translation) {
+    TRANSLATED_FIELDS.forEach(field => {
+      const value = translation[field];
+      if (Array.isArray(value) ? value.length > 0 : value) localized[field] = value;
+    });
+  }
+
+  return localized;
+};
+
+export const localizeProblems = (problems: any[], locale?: string): any[] => {
+  return problems.map(problem => localizeProblem(problem, locale));
+};
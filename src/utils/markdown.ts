@@ -0,0 +1,73 @@
+import { marked } from 'marked';
+import sanitizeHtml from 'sanitize-html';
+
+// Length of the plain-text excerpt shown in listings and search results
+export const EXCERPT_LENGTH = 300;
+
+// Markup faculty can use in abstracts and learning outcomes: headings, lists, emphasis, code, tables and links.
+// Scripts, styles, images, iframes and inline event handlers never make it through.
+const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: [
+    'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'br', 'hr', 'blockquote',
+    'ul', 'ol', 'li', 'strong', 'em', 'del', 'code', 'pre', 'a',
+    'table', 'thead', 'tbody', 'tr', 'th', 'td'
+  ],
+  allowedAttributes: {
+    a: ['href', 'title', 'target', 'rel'],
+    ol: ['start'],
+    th: ['align'],
+    td: ['align']
+  },
+  allowedClasses: {
+    code: ['language-*']
+  },
+  allowedSchemes: ['http', 'https', 'mailto'],
+  transformTags: {
+    a: sanitizeHtml.simpleTransform('a', { target: '_blank', rel: 'noopener noreferrer nofollow' })
+  }
+};
+
+const ENTITIES: { [entity: string]: string } = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&#x27;': "'",
+  '&nbsp;': ' '
+};
+
+const decodeEntities = (text: string): string => text.replace(/&(?:amp|lt|gt|quot|nbsp|#39|#x27);/g, entity => ENTITIES[entity]);
+
+// Markdown block (an abstract) to sanitized HTML
+export const renderMarkdown = (markdown: string): string => {
+  if (!markdown) return '';
+  return sanitizeHtml(marked.parse(markdown, { async: false, gfm: true }) as string, SANITIZE_OPTIONS);
+};
+
+// Single line of Markdown (a learning outcome) to sanitized HTML without the surrounding paragraph
+export const renderInlineMarkdown = (markdown: string): string => {
+  if (!markdown) return '';
+  return sanitizeHtml(marked.parseInline(markdown, { async: false, gfm: true }) as string, SANITIZE_OPTIONS);
+};
+
+// Markdown without its markup. Blocks stay on their own lines, separated by a blank line.
+export const markdownToText = (markdown: string): string => {
+  const text = sanitizeHtml(renderMarkdown(markdown), { allowedTags: [], allowedAttributes: {} });
+  return decodeEntities(text)
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+// One-line plain-text summary, cut at a word boundary
+export const markdownExcerpt = (markdown: string, length: number = EXCERPT_LENGTH): string => {
+  const text = markdownToText(markdown).replace(/\s+/g, ' ');
+  if (text.length <= length) return text;
+
+  const cut = text.slice(0, length);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > length * 0.6 ? cut.slice(0, lastSpace) : cut).replace(/[\s.,;:!?-]+$/, '')}…`;
+};
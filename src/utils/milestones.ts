@@ -0,0 +1,27 @@
+import { Milestone, IMilestone } from '../models/Milestone';
+import { IProblemStatement } from '../models/Problem';
+import { IProjectAllocation } from '../models/ProjectAllocation';
+import { parseDurationWeeks } from './duration';
+
+const DEFAULT_PROJECT_WEEKS = 12;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Spreads the problem's deliverables evenly over its duration, the last one due at the end of the project
+export const generateMilestones = async (
+  allocation: IProjectAllocation,
+  problem: IProblemStatement,
+  startDate: Date = new Date()
+): Promise<IMilestone[]> => {
+  const weeks = problem.durationWeeks?.max || parseDurationWeeks(problem.duration)?.max || DEFAULT_PROJECT_WEEKS;
+  const deliverables = problem.deliverables.length > 0 ? problem.deliverables : ['Final Submission'];
+
+  const milestones = deliverables.map((deliverable, index) => ({
+    allocation: allocation._id,
+    problem: problem._id,
+    title: deliverable,
+    order: index + 1,
+    dueDate: new Date(startDate.getTime() + Math.round((weeks * 7 * (index + 1)) / deliverables.length) * DAY_MS)
+  }));
+
+  return Milestone.insertMany(milestones) as unknown as Promise<IMilestone[]>;
+};
@@ -0,0 +1,91 @@
+// Column layout shared by bulk upload templates, file imports and catalog exports
+export const IMPORT_COLUMNS = [
+  'id',
+  'title',
+  'abstract',
+  'domain',
+  'category',
+  'difficulty',
+  'duration',
+  'technologies',
+  'deliverables',
+  'prerequisites',
+  'learningOutcomes',
+  'tags',
+  'status',
+  'featured'
+];
+
+// Columns holding lists, written as semicolon separated values in CSV and XLSX
+export const ARRAY_COLUMNS = ['technologies', 'deliverables', 'prerequisites', 'learningOutcomes', 'tags'];
+
+// List items are joined with semicolons; a semicolon or backslash inside an item is escaped with a backslash
+export const joinListField = (items: string[]): string => {
+  return items.map(item => String(item).replace(/\\/g, '\\\\').replace(/;/g, '\\;')).join(';');
+};
+
+// Splits a joined list back into its items. Other backslashes are kept as written.
+export const splitListField = (value: string): string[] => {
+  const items: string[] = [];
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '\\' && (value[i + 1] === ';' || value[i + 1] === '\\')) {
+      current += value[++i];
+    } else if (char === ';') {
+      items.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  items.push(current);
+  return items;
+};
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Text that would start a formula is written with a leading apostrophe, so Excel shows it as text
+export const protectFormula = (value: string): string => (FORMULA_PREFIX.test(value) ? `'${value}` : value);
+
+// Undoes protectFormula when a spreadsheet is imported again
+export const unprotectFormula = (value: string): string => {
+  return value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value;
+};
+
+// Flattens a problem (document or plain object) into one value per import column
+export const toImportRow = (problem: any): { [column: string]: string } => {
+  const row: { [column: string]: string } = {};
+  IMPORT_COLUMNS.forEach(column => {
+    const value = problem[column];
+    if (ARRAY_COLUMNS.includes(column)) {
+      row[column] = protectFormula(joinListField(value || []));
+    } else {
+      row[column] = protectFormula(value === undefined || value === null ? '' : String(value));
+    }
+  });
+  return row;
+};
+
+// The same columns with list fields kept as arrays, for JSON files
+export const toImportRecord = (problem: any): { [column: string]: any } => {
+  const record: { [column: string]: any } = {};
+  IMPORT_COLUMNS.forEach(column => {
+    const value = problem[column];
+    if (ARRAY_COLUMNS.includes(column)) record[column] = value || [];
+    else record[column] = value === undefined ? null : value;
+  });
+  return record;
+};
+
+// Worksheet column definitions for XLSX files
+export const toSheetColumns = (): Array<{ header: string; key: string; width: number }> => {
+  return IMPORT_COLUMNS.map(column => ({ header: column, key: column, width: column === 'abstract' ? 60 : 20 }));
+};
+
+const toCsvValue = (value: string): string => {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const toCsvLine = (values: string[]): string => values.map(toCsvValue).join(',');
@@ -0,0 +1,93 @@
+import mongoose from 'mongoose';
+import { publishedFilter } from './problemVisibility';
+import { normalizeTechnologies } from '../services/technologies';
+
+// Sort options accepted by the listing endpoints (?sort=most_viewed)
+export const PROBLEM_SORTS: { [key: string]: any } = {
+  newest: { createdAt: -1 },
+  oldest: { createdAt: 1 },
+  most_viewed: { viewCount: -1, createdAt: -1 },
+  title: { title: 1 }
+};
+
+// Reads a query param that may be repeated (?domain=a&domain=b) or comma-separated (?domain=a,b)
+export const toList = (value: unknown): string[] => {
+  if (value === undefined || value === null || value === '') return [];
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .flatMap(item => String(item).split(','))
+    .map(item => item.trim())
+    .filter(item => item !== '');
+};
+
+const toDate = (value: unknown): Date | null => {
+  if (!value) return null;
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const toWeeks = (value: unknown): number | null => {
+  const weeks = parseInt(String(value), 10);
+  return isNaN(weeks) || weeks < 1 ? null : weeks;
+};
+
+const inOrEqual = (values: string[]): any => (values.length === 1 ? values[0] : { $in: values });
+
+// Builds the problem filter shared by /problems, /public/problems, /problems/domain/:domain and search.
+// Supported params: domain, difficulty, category, status, technologies (+ techMatch=any|all), tags,
+// featured, createdBy, createdFrom, createdTo, minWeeks, maxWeeks. Anything set in `base` wins over the query.
+// maxWeeks=10 keeps problems that can be finished within 10 weeks, minWeeks=12 those that run at least 12 weeks.
+// Technologies are matched by their canonical names, so ?technologies=nodejs finds problems using "Node.js".
+export const buildProblemFilter = async (query: any, base: any = {}): Promise<any> => {
+  const filter: any = {};
+
+  const domains = toList(query.domain);
+  if (domains.length) filter.domain = inOrEqual(domains);
+
+  const difficulties = toList(query.difficulty);
+  if (difficulties.length) filter.difficulty = inOrEqual(difficulties);
+
+  const categories = toList(query.category);
+  if (categories.length) filter.category = inOrEqual(categories);
+
+  const statuses = toList(query.status);
+  // Active listings respect the publish/archive schedule
+  if (statuses.length === 1 && statuses[0] === 'Active') Object.assign(filter, publishedFilter());
+  else if (statuses.length) filter.status = inOrEqual(statuses);
+
+  const requestedTechnologies = toList(query.technologies);
+  if (requestedTechnologies.length) {
+    const technologies = await normalizeTechnologies(requestedTechnologies);
+    filter.technologies = query.techMatch === 'all' ? { $all: technologies } : { $in: technologies };
+  }
+
+  const tags = toList(query.tags);
+  if (tags.length) filter.tags = { $in: tags };
+
+  if (query.featured === 'true' || query.featured === 'false') {
+    filter.featured = query.featured === 'true';
+  }
+
+  if (query.createdBy && mongoose.Types.ObjectId.isValid(String(query.createdBy))) {
+    filter.createdBy = new mongoose.Types.ObjectId(String(query.createdBy));
+  }
+
+  const minWeeks = toWeeks(query.minWeeks);
+  const maxWeeks = toWeeks(query.maxWeeks);
+  if (minWeeks !== null) filter['durationWeeks.min'] = { $gte: minWeeks };
+  if (maxWeeks !== null) filter['durationWeeks.max'] = { $lte: maxWeeks };
+
+  const createdFrom = toDate(query.createdFrom);
+  const createdTo = toDate(query.createdTo);
+  if (createdFrom || createdTo) {
+    filter.createdAt = {};
+    if (createdFrom) filter.createdAt.$gte = createdFrom;
+    if (createdTo) filter.createdAt.$lte = createdTo;
+  }
+
+  return { ...filter, ...base };
+};
+
+export const getProblemSort = (sort: unknown, fallback: string = 'newest'): any => {
+  return PROBLEM_SORTS[String(sort)] || PROBLEM_SORTS[fallback];
+};
@@ -0,0 +1,20 @@
+import { publishedFilter } from './problemVisibility';
+
+describe('publishedFilter', () => {
+  const now = new Date('2026-03-01T10:00:00Z');
+
+  it('only matches Active problems', () => {
+    expect(publishedFilter(now).status).toBe('Active');
+  });
+
+  it('requires the publish date to have passed and the archive date to be ahead', () => {
+    expect(publishedFilter(now).$and).toEqual([
+      { $or: [{ publishAt: null }, { publishAt: { $lte: now } }] },
+      { $or: [{ archiveAt: null }, { archiveAt: { $gt: now } }] }
+    ]);
+  });
+
+  it('leaves $or free for callers', () => {
+    expect(publishedFilter(now).$or).toBeUndefined();
+  });
+});
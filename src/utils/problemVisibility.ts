@@ -0,0 +1,9 @@
+// Filter for problems the public may see right now: Active and inside their publish/archive window.
+// Uses $and so callers can still add their own $or conditions.
+export const publishedFilter = (now: Date = new Date()): any => ({
+  status: 'Active',
+  $and: [
+    { $or: [{ publishAt: null }, { publishAt: { $lte: now } }] },
+    { $or: [{ archiveAt: null }, { archiveAt: { $gt: now } }] }
+  ]
+});
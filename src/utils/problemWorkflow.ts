@@ -0,0 +1,117 @@
+import { IProblemStatement, IProblemReview } from '../models/Problem';
+
+// Status changes allowed on a problem statement. Going Active additionally requires an approved review.
+const ALLOWED_TRANSITIONS: { [from: string]: string[] } = {
+  'Draft': ['In Review', 'Archived'],
+  'In Review': ['Draft', 'Active'],
+  'Active': ['Draft', 'Archived'],
+  'Archived': ['Draft', 'Active']
+};
+
+// Fields reviewers sign off on; changing them invalidates an approval
+const EDITORIAL_FIELDS = [
+  'title',
+  'abstract',
+  'technologies',
+  'domain',
+  'category',
+  'difficulty',
+  'duration',
+  'durationWeeks',
+  'deliverables',
+  'prerequisites',
+  'learningOutcomes'
+];
+
+export const isReviewer = (user: any): boolean => user?.role === 'admin' || !!user?.isReviewer;
+
+// Returns why a status change is not allowed, or null when it is
+export const getTransitionError = (problem: IProblemStatement, to: string): string | null => {
+  if (problem.status === to) return null;
+
+  if (!ALLOWED_TRANSITIONS[problem.status]?.includes(to)) {
+    return `Cannot move a problem from ${problem.status} to ${to}`;
+  }
+
+  if (to === 'Active' && problem.review?.state !== 'Approved') {
+    return 'Only problems approved in review can be made Active';
+  }
+
+  if (to === 'Active' && problem.archiveAt && problem.archiveAt <= new Date()) {
+    return 'The archive date has passed, move or clear archiveAt before making this problem Active';
+  }
+
+  return null;
+};
+
+// Applies an allowed status change and keeps the review state in step with it
+export const applyStatusTransition = (problem: IProblemStatement, to: string, user: any, comment?: string): void => {
+  const from = problem.status;
+  if (from === to) return;
+
+  if (to === 'In Review') {
+    problem.review.state = 'Pending';
+    problem.review.submittedBy = user?.id;
+    problem.review.submittedAt = new Date();
+    problem.review.comments.push({ author: user?.id, body: comment, decision: 'submit' } as any);
+  } else if (from === 'In Review' && to === 'Draft' && problem.review.state === 'Pending') {
+    // Author withdrew the submission
+    problem.review.state = 'None';
+  }
+
+  problem.status = to as IProblemStatement['status'];
+};
+
+// Records a reviewer's decision on a problem that is In Review
+export const applyReviewDecision = (
+  problem: IProblemStatement,
+  decision: 'approve' | 'request_changes' | 'comment',
+  user: any,
+  comment?: string
+): void => {
+  problem.review.comments.push({ author: user?.id, body: comment, decision } as any);
+  if (decision === 'comment') return;
+
+  problem.review.reviewedBy = user?.id;
+  problem.review.reviewedAt = new Date();
+
+  if (decision === 'approve') {
+    problem.review.state = 'Approved';
+  } else {
+    problem.review.state = 'Changes Requested';
+    problem.status = 'Draft';
+  }
+};
+
+// When faculty edit the content of an approved problem it goes back into review,
+// pulling it off the live catalog if it was already Active. Reviewer edits keep the approval.
+export const resetApprovalOnEdit = (problem: IProblemStatement, user: any): boolean => {
+  if (isReviewer(user) || problem.review?.state !== 'Approved') return false;
+  if (!EDITORIAL_FIELDS.some(field => problem.isModified(field))) return false;
+
+  problem.review.state = 'Pending';
+  problem.review.submittedBy = user?.id;
+  problem.review.submittedAt = new Date();
+  problem.review.comments.push({ author: user?.id, body: 'Content edited after approval', decision: 'submit' } as any);
+  if (problem.status === 'Active') {
+    problem.status = 'In Review';
+  }
+  return true;
+};
+
+// Review state for a newly created problem, or an error when the requested status isn't allowed
+export const getInitialReview = (status: string, user: any): { review?: Partial<IProblemReview>; error?: string } => {
+  if (status === 'Active') {
+    if (!isReviewer(user)) {
+      return { error: 'New problems must be approved in review before they can be Active' };
+    }
+    // Reviewers publishing directly count as the approving reviewer
+    return { review: { state: 'Approved', reviewedBy: user?.id, reviewedAt: new Date(), comments: [] } };
+  }
+
+  if (status === 'In Review') {
+    return { review: { state: 'Pending', submittedBy: user?.id, submittedAt: new Date(), comments: [] } };
+  }
+
+  return { review: { state: 'None', comments: [] } };
+};
@@ -0,0 +1,34 @@
+import { EDITABLE_FIELDS, pickEditableFields } from './revisions';
+
+describe('pickEditableFields', () => {
+  it('takes the content fields from a request body', () => {
+    expect(pickEditableFields({ title: 'New title', tags: ['iot'], seatCapacity: 3 })).toEqual({
+      title: 'New title',
+      tags: ['iot'],
+      seatCapacity: 3
+    });
+  });
+
+  it('drops fields that have their own endpoint or are derived on save', () => {
+    const picked = pickEditableFields({
+      title: 'New title',
+      id: 'AIM999',
+      status: 'Active',
+      featured: true,
+      viewCount: 5000,
+      deletedAt: new Date(),
+      deletedBy: '64b000000000000000000001',
+      createdBy: '64b000000000000000000001',
+      review: { state: 'Approved' },
+      attachments: [{ storageKey: 'attachments/other/file.pdf' }],
+      translations: [{ locale: 'hi', title: 'शीर्षक' }],
+      abstractHtml: '<script></script>'
+    });
+    expect(picked).toEqual({ title: 'New title' });
+  });
+
+  it('keeps featuring and status out of the editable fields', () => {
+    expect(EDITABLE_FIELDS).not.toContain('featured');
+    expect(EDITABLE_FIELDS).not.toContain('status');
+  });
+});
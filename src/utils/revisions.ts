@@ -0,0 +1,154 @@
+import { ProblemStatement, IProblemStatement } from '../models/Problem';
+import { ProblemRevision, IProblemRevision, IFieldChange } from '../models/ProblemRevision';
+import { nextSequence } from '../models/Counter';
+
+// Fields whose history is kept for every problem statement
+export const REVISIONED_FIELDS = [
+  'title',
+  'abstract',
+  'technologies',
+  'domain',
+  'category',
+  'difficulty',
+  'duration',
+  'deliverables',
+  'prerequisites',
+  'learningOutcomes',
+  'tags',
+  'seatCapacity',
+  'publishAt',
+  'archiveAt',
+  'status',
+  'featured'
+];
+
+// Workflow fields are left alone on restore so a rollback can't publish, schedule or feature a problem
+export const RESTORABLE_FIELDS = REVISIONED_FIELDS.filter(field => !['publishAt', 'archiveAt', 'status', 'featured'].includes(field));
+
+// Fields a regular create or update may set. Everything else (ownership, counters, trash state, attachments,
+// translations, rendered Markdown) has its own endpoint or is derived on save. Status goes through the workflow
+// and featuring is admin-only through PUT /problems/:id/featured.
+export const EDITABLE_FIELDS = [
+  ...REVISIONED_FIELDS.filter(field => !['status', 'featured'].includes(field)),
+  'durationWeeks'
+];
+
+// The editable fields present in a request body
+export const pickEditableFields = (body: { [field: string]: any }): { [field: string]: any } => {
+  const fields: { [field: string]: any } = {};
+  EDITABLE_FIELDS.forEach(field => {
+    if (body[field] !== undefined) fields[field] = body[field];
+  });
+  return fields;
+};
+
+export const snapshotProblem = (problem: IProblemStatement): { [field: string]: any } => {
+  const plain: any = problem.toObject();
+  const snapshot: { [field: string]: any } = {};
+  REVISIONED_FIELDS.forEach(field => {
+    snapshot[field] = plain[field] === undefined ? null : JSON.parse(JSON.stringify(plain[field]));
+  });
+  return snapshot;
+};
+
+export const diffSnapshots = (before: { [field: string]: any }, after: { [field: string]: any }): IFieldChange[] => {
+  const changes: IFieldChange[] = [];
+
+  REVISIONED_FIELDS.forEach(field => {
+    const from = before[field];
+    const to = after[field];
+    if (JSON.stringify(from) === JSON.stringify(to)) return;
+
+    const change: IFieldChange = { field, from, to };
+    if (Array.isArray(from) || Array.isArray(to)) {
+      const fromValues: string[] = (from || []).map(String);
+      const toValues: string[] = (to || []).map(String);
+      change.added = toValues.filter(value => !fromValues.includes(value));
+      change.removed = fromValues.filter(value => !toValues.includes(value));
+    }
+    changes.push(change);
+  });
+
+  return changes;
+};
+
+export const revisionCounterKey = (problemId: any): string => `revision:${problemId}`;
+
+// Stores a revision for a saved change. Problems created before revisions existed get a
+// baseline revision first, so their original content can still be restored.
+export const recordRevision = async (
+  problem: IProblemStatement,
+  before: { [field: string]: any } | null,
+  action: IProblemRevision['action'],
+  editedBy?: string,
+  restoredFrom?: number
+): Promise<IProblemRevision | null> => {
+  const after = snapshotProblem(problem);
+  const changes = before ? diffSnapshots(before, after) : [];
+
+  if (before && changes.length === 0) return null;
+
+  // Follow the problem's session so revisions commit or roll back together with it
+  const session = problem.$session();
+  const hasHistory = await ProblemRevision.exists({ problem: problem._id }).session(session);
+
+  // Numbers come from a per-problem counter so concurrent edits never claim the same one.
+  // Like problem ids, numbers taken by a rolled back import are skipped.
+  const key = revisionCounterKey(problem._id);
+  const nextRevision = () => nextSequence(key, async () => {
+    const latest = await ProblemRevision.findOne({ problem: problem._id }).sort({ revision: -1 }).session(session);
+    return latest ? latest.revision : 0;
+  });
+
+  if (!hasHistory && before) {
+    await ProblemRevision.create([{
+      problem: problem._id,
+      revision: await nextRevision(),
+      action: 'baseline',
+      changes: [],
+      snapshot: before
+    }], { session });
+  }
+
+  const [created] = await ProblemRevision.create([{
+    problem: problem._id,
+    revision: await nextRevision(),
+    action,
+    editedBy,
+    changes,
+    snapshot: after,
+    restoredFrom
+  }], { session });
+  return created;
+};
+
+// Applies an admin change across many problems (tag merge, domain rename, technology cleanup), trashed ones
+// included. Each changed problem gets a bulk revision, so its history and restores see the change like any
+// other edit. Only `fields` are written and the save hooks don't run. Returns the number of problems changed.
+export const reviseProblems = async (
+  filter: any,
+  fields: string[],
+  edit: (problem: IProblemStatement) => void | Promise<void>,
+  editedBy?: string
+): Promise<number> => {
+  const problems = await ProblemStatement.find(filter)
+    .setOptions({ withDeleted: true })
+    .select(REVISIONED_FIELDS.join(' '));
+
+  let changed = 0;
+  for (const problem of problems) {
+    const before = snapshotProblem(problem);
+    await edit(problem);
+    if (diffSnapshots(before, snapshotProblem(problem)).length === 0) continue;
+
+    const updates: { [field: string]: any } = {};
+    fields.forEach(field => {
+      updates[field] = problem.get(field);
+    });
+    await ProblemStatement.updateOne({ _id: problem._id }, { $set: updates }).setOptions({ withDeleted: true });
+    await recordRevision(problem, before, 'bulk', editedBy);
+    changed++;
+  }
+
+  return changed;
+};
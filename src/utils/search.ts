@@ -0,0 +1,23 @@
+// Escapes user input for safe use inside a RegExp
+export const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Cleans a query for MongoDB $text: drops quotes and negations so user input
+// can't switch on phrase or exclusion operators, and caps its length
+export const toTextSearch = (q: unknown): string | null => {
+  if (typeof q !== 'string') return null;
+
+  const cleaned = q
+    .slice(0, 200)
+    .replace(/["\\]/g, ' ')
+    .split(/\s+/)
+    .map(term => term.replace(/^-+/, ''))
+    .filter(term => term !== '')
+    .join(' ');
+
+  return cleaned || null;
+};
+
+// Formats $group output ({ _id, count }) as facet buckets
+export const toFacetBuckets = (groups: Array<{ _id: any; count: number }>): Array<{ value: any; count: number }> => {
+  return groups.map(group => ({ value: group._id, count: group.count }));
+};
@@ -0,0 +1,9 @@
+// "AI & Machine Learning" -> "ai-machine-learning"
+export const slugify = (value: string): string => {
+  return (value || '')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+};
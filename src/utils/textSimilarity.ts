@@ -0,0 +1,58 @@
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'for', 'from', 'has', 'have', 'in', 'into',
+  'is', 'it', 'its', 'like', 'of', 'on', 'or', 'such', 'that', 'the', 'their', 'this', 'to', 'using',
+  'via', 'was', 'which', 'will', 'with', 'system', 'based', 'develop', 'build', 'create', 'users', 'user'
+]);
+
+// Lowercased word tokens without stop words and very short words, with a light plural strip
+export const tokenize = (text: string): string[] => {
+  return (text || '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 2 && !STOP_WORDS.has(token))
+    .map(token => (token.length > 4 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token));
+};
+
+export const termFrequencies = (tokens: string[]): Map<string, number> => {
+  const frequencies = new Map<string, number>();
+  tokens.forEach(token => frequencies.set(token, (frequencies.get(token) || 0) + 1));
+  return frequencies;
+};
+
+// Cosine similarity of two term-frequency vectors, 0 (unrelated) to 1 (same wording)
+export const cosineSimilarity = (a: Map<string, number>, b: Map<string, number>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+
+  let dot = 0;
+  a.forEach((count, term) => {
+    dot += count * (b.get(term) || 0);
+  });
+
+  const magnitude = (vector: Map<string, number>) =>
+    Math.sqrt(Array.from(vector.values()).reduce((sum, count) => sum + count * count, 0));
+
+  return dot / (magnitude(a) * magnitude(b));
+};
+
+export const textSimilarity = (a: string, b: string): number => {
+  return cosineSimilarity(termFrequencies(tokenize(a)), termFrequencies(tokenize(b)));
+};
+
+// Case-insensitive overlap of two string lists (intersection over union)
+export const jaccardSimilarity = (a: string[], b: string[]): number => {
+  const setA = new Set((a || []).map(item => item.toLowerCase()));
+  const setB = new Set((b || []).map(item => item.toLowerCase()));
+  if (setA.size === 0 && setB.size === 0) return 0;
+
+  let shared = 0;
+  setA.forEach(item => {
+    if (setB.has(item)) shared++;
+  });
+
+  return shared / (setA.size + setB.size - shared);
+};
+
+export const sharedValues = (a: string[], b: string[]): string[] => {
+  const lowerB = new Set((b || []).map(item => item.toLowerCase()));
+  return (a || []).filter(item => lowerB.has(item.toLowerCase()));
+};